@@ -1,4 +1,4 @@
-import { MessageSquare, Settings, Plus, Trash2, LogOut, ChevronDown } from "lucide-react";
+import { MessageSquare, Settings, Plus, Trash2, LogOut, ChevronDown, Braces } from "lucide-react";
 import { useEffect, useState } from "react";
 import {
   Sidebar,
@@ -33,6 +33,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
+import { PromptMacrosDialog } from "./PromptMacrosDialog";
 
 interface Session {
   id: string;
@@ -52,6 +53,7 @@ export function AppSidebar({
   const [sessions, setSessions] = useState<Session[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isChatListCollapsed, setIsChatListCollapsed] = useState(false);
+  const [isMacrosOpen, setIsMacrosOpen] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -246,6 +248,11 @@ export function AppSidebar({
       </SidebarContent>
 
       <SidebarFooter className="border-t border-border p-3">
+        <Button variant="outline" size="sm" className="w-full" onClick={() => setIsMacrosOpen(true)}>
+          <Braces className="h-4 w-4 mr-2" />
+          <span>Prompt Macros</span>
+        </Button>
+        <PromptMacrosDialog open={isMacrosOpen} onOpenChange={setIsMacrosOpen} />
         <div className="flex items-center gap-2">
           <Popover>
             <PopoverTrigger asChild>
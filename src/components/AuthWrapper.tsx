@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { loadPromptMacros, registerPromptMacros } from "@/lib/macros";
 import { Auth } from "./Auth";
 
 interface AuthWrapperProps {
@@ -26,6 +27,25 @@ export function AuthWrapper({ children }: AuthWrapperProps) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // The signed-in user's prompt macros become slash commands; signing out drops them
+  const userId = session?.user.id;
+  useEffect(() => {
+    if (!userId) {
+      registerPromptMacros([]);
+      return;
+    }
+
+    let isCurrent = true;
+    loadPromptMacros()
+      .then((macros) => {
+        if (isCurrent) registerPromptMacros(macros);
+      })
+      .catch((error) => console.error("Error loading prompt macros:", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -0,0 +1,40 @@
+import { useState, type ReactNode } from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { CandidateContent } from "@/lib/gemini";
+
+interface CandidateTabsProps {
+  candidates: CandidateContent[];
+  /** Candidate the conversation continues from; undefined while still streaming */
+  selected?: number;
+  onSelect?: (index: number) => void;
+  renderCandidate: (candidate: CandidateContent) => ReactNode;
+}
+
+export function CandidateTabs({ candidates, selected, onSelect, renderCandidate }: CandidateTabsProps) {
+  const [viewing, setViewing] = useState(String(selected ?? 0));
+
+  return (
+    <Tabs value={viewing} onValueChange={setViewing} className="space-y-3">
+      <TabsList className="h-8">
+        {candidates.map((_, index) => (
+          <TabsTrigger key={index} value={String(index)} className="gap-1 px-2.5 py-1 text-xs">
+            {selected === index && <Check className="h-3 w-3" />}
+            Candidate {index + 1}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+      {candidates.map((candidate, index) => (
+        <TabsContent key={index} value={String(index)} className="mt-0 space-y-3">
+          {renderCandidate(candidate)}
+          {onSelect && selected !== undefined && selected !== index && (
+            <Button variant="outline" size="sm" onClick={() => onSelect(index)}>
+              Continue with this candidate
+            </Button>
+          )}
+        </TabsContent>
+      ))}
+    </Tabs>
+  );
+}
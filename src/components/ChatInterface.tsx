@@ -1,14 +1,38 @@
-import {useState, useRef, useEffect, useLayoutEffect, lazy, Suspense, useCallback} from "react";
-import {Send, Square, Paperclip, X, FileText, Image as ImageIcon} from "lucide-react";
+import {useState, useRef, useEffect, useLayoutEffect, lazy, Suspense, useCallback, Fragment} from "react";
+import {Send, Square, Paperclip, X, FileText, Image as ImageIcon, AlertTriangle, Loader2, Play, Pencil, ChevronLeft, ChevronRight} from "lucide-react";
 import {Button} from "@/components/ui/button";
 import {Textarea} from "@/components/ui/textarea";
 import {ScrollArea} from "@/components/ui/scroll-area";
 import {Card} from "@/components/ui/card";
 import {cn} from "@/lib/utils";
-import {streamGeminiChat, Message, type SafetySettings} from "@/lib/gemini";
+import {streamGeminiChat, generateText, GeminiStreamError, Message, type Attachment, type CandidateContent, type SafetySettings} from "@/lib/gemini";
+import {getModelInfo, getModelLabel} from "@/lib/models";
+import {isAttachmentSupported, resolveMimeType} from "@/lib/attachments";
+import {validateGenerationParams, type GenerationParams} from "@/lib/generation";
+import {validateJsonResponse, type JsonSchema, type SchemaValidation} from "@/lib/jsonSchema";
+import type {CodeExecutionStep, GroundingMetadata, MessageStatus, TokenUsage, ToolCallStep} from "@/lib/events";
+import type {Json, Tables} from "@/integrations/supabase/types";
 import {toast} from "sonner";
 import {supabase} from "@/integrations/supabase/client";
-import {commandParser} from "@/lib/commands";
+import {commandParser, type CommandOptions, type TurnSettings} from "@/lib/commands";
+import {CandidateTabs} from "@/components/CandidateTabs";
+import {useTokenCount} from "@/hooks/use-token-count";
+import {useCommandMenu} from "@/hooks/use-command-menu";
+import {CommandMenu} from "@/components/CommandMenu";
+import {MacroVariablesDialog, type PendingMacro} from "@/components/MacroVariablesDialog";
+import {fillTemplate, findTemplateVariables} from "@/lib/macros";
+import {indexChildren, mergeBranch, resolveActivePath} from "@/lib/branches";
+import {parseUrlList} from "@/lib/urls";
+import {CompactionMarker} from "@/components/CompactionMarker";
+import {
+    DEFAULT_CONTEXT_SETTINGS,
+    planCompaction,
+    selectHistory,
+    summarizeHistory,
+    type ContextSelection,
+    type ContextSettings,
+    type ContextSummary
+} from "@/lib/context";
 
 const MessageContent = lazy(() =>
     import("@/components/MessageContent").then((module) => ({
@@ -16,6 +40,51 @@ const MessageContent = lazy(() =>
     }))
 );
 
+const ATTACHMENT_PREVIEW_TTL_SECONDS = 60 * 60;
+// A reply still marked as streaming after this long lost its function mid-generation
+const STALE_STREAMING_MS = 2 * 60 * 1000;
+const STORED_REPLY_POLL_MS = 2000;
+// After a stop the saved reply is checked this often until the server has marked it stopped
+const STOP_SETTLE_POLL_MS = 500;
+const STOP_SETTLE_ATTEMPTS = 6;
+const MESSAGE_COLUMNS = '*, message_attachments(file_name, file_path, mime_type)';
+
+type MessageRow = Tables<'messages'> & {
+    message_attachments: Pick<Tables<'message_attachments'>, 'file_name' | 'file_path' | 'mime_type'>[];
+};
+
+const toMessage = (msg: MessageRow, previewUrls: Map<string, string>): Message => {
+    const attachments: Attachment[] = msg.message_attachments.map((att) => ({
+        name: att.file_name,
+        mimeType: att.mime_type,
+        path: att.file_path,
+        previewUrl: previewUrls.get(att.file_path),
+    }));
+    const isStale = msg.status === 'streaming' && Date.now() - new Date(msg.updated_at).getTime() > STALE_STREAMING_MS;
+    const status = (isStale ? 'interrupted' : msg.status) as MessageStatus;
+
+    return {
+        id: msg.id,
+        parentId: msg.parent_id ?? undefined,
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        urls: msg.urls ?? undefined,
+        thoughts: msg.thoughts ?? undefined,
+        finishReason: msg.finish_reason ?? undefined,
+        grounding: (msg.grounding as unknown as GroundingMetadata | null) ?? undefined,
+        toolCalls: (msg.tool_calls as unknown as ToolCallStep[] | null) ?? undefined,
+        codeExecutions: (msg.code_executions as unknown as CodeExecutionStep[] | null) ?? undefined,
+        model: msg.model ?? undefined,
+        schemaValidation: (msg.schema_validation as unknown as SchemaValidation | null) ?? undefined,
+        candidates: (msg.candidates as unknown as CandidateContent[] | null) ?? undefined,
+        selectedCandidate: msg.selected_candidate ?? undefined,
+        usage: (msg.usage as unknown as TokenUsage | null) ?? undefined,
+        status: status === 'complete' ? undefined : status,
+        error: msg.error ?? undefined
+    };
+};
+
 const MessageContentFallback = () => (
     <div className="space-y-3">
         <div className="h-3 w-32 rounded bg-muted animate-pulse"/>
@@ -24,15 +93,82 @@ const MessageContentFallback = () => (
     </div>
 );
 
+const MessageFooter = ({model, usage}: { model?: string; usage?: TokenUsage }) => (
+    <p className="mt-3 text-[11px] text-muted-foreground">
+        {[
+            model && getModelLabel(model),
+            usage && `${usage.promptTokens.toLocaleString()} prompt · ${usage.completionTokens.toLocaleString()} completion tokens`,
+        ].filter(Boolean).join(" · ")}
+    </p>
+);
+
+const ReconnectingNotice = () => (
+    <p className="mt-3 flex items-center gap-1.5 text-[11px] text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin"/>
+        Connection lost, reconnecting…
+    </p>
+);
+
+// Turns amber near the limit and red once the next request would not fit
+const TokenMeter = ({count, contextWindow}: { count: number; contextWindow: number }) => {
+    const ratio = count / contextWindow;
+    return (
+        <p className={cn(
+            "text-right text-[11px] tabular-nums",
+            ratio > 1 ? "text-destructive" : ratio > 0.9 ? "text-amber-500" : "text-muted-foreground"
+        )}>
+            {count.toLocaleString()} / {contextWindow.toLocaleString()} tokens
+        </p>
+    );
+};
+
+// "< 2/3 >" between the sibling branches of a message
+const BranchSwitcher = ({position, count, disabled, onSwitch}: {
+    position: number;
+    count: number;
+    disabled: boolean;
+    onSwitch: (position: number) => void;
+}) => (
+    <div className="flex items-center text-[11px] tabular-nums text-muted-foreground">
+        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Previous branch"
+                disabled={disabled || position === 0} onClick={() => onSwitch(position - 1)}>
+            <ChevronLeft className="h-3.5 w-3.5"/>
+        </Button>
+        <span>{position + 1}/{count}</span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" aria-label="Next branch"
+                disabled={disabled || position === count - 1} onClick={() => onSwitch(position + 1)}>
+            <ChevronRight className="h-3.5 w-3.5"/>
+        </Button>
+    </div>
+);
+
+// One streamed reply; a continuation extends a saved reply instead of answering a new user message
+interface ReplyRequest {
+    sessionId: string;
+    request: ContextSelection;
+    /** Settings that differ for this turn, e.g. from slash commands */
+    overrides?: TurnSettings;
+    userMessage?: Message;
+    continueFrom?: Message;
+    onComplete?: (reply: Message) => Promise<void>;
+}
+
 interface ChatInterfaceProps {
     model?: string;
     temperature?: number;
+    generationParams?: GenerationParams;
     jsonMode?: boolean;
     useWebSearch?: boolean;
+    useCodeExecution?: boolean;
     systemInstruction?: string;
     urlContext?: string;
     thinkingBudget?: number;
     safetySettings?: SafetySettings;
+    enabledTools?: string[];
+    fallbackModels?: string[];
+    responseSchema?: JsonSchema | null;
+    contextSettings?: ContextSettings;
+    onContextSettingsChange?: (settings: ContextSettings) => void;
     sessionId?: string | null;
     onSessionCreated?: (sessionId: string) => void;
 }
@@ -40,29 +176,82 @@ interface ChatInterfaceProps {
 export function ChatInterface({
                                   model = "gemini-2.5-flash",
                                   temperature = 0.7,
+                                  generationParams,
                                   jsonMode = false,
                                   useWebSearch = false,
+                                  useCodeExecution = false,
                                   systemInstruction,
                                   urlContext,
-                                  thinkingBudget = 2000,
+                                  thinkingBudget,
                                   safetySettings,
+                                  enabledTools,
+                                  fallbackModels,
+                                  responseSchema,
+                                  contextSettings = DEFAULT_CONTEXT_SETTINGS,
+                                  onContextSettingsChange,
                                   sessionId: initialSessionId,
                                   onSessionCreated,
                                   onNewSession
                               }: ChatInterfaceProps & { onNewSession?: () => void }) {
+    // The path on screen; branchMessages holds the saved messages of every branch, as of the last switch
     const [messages, setMessages] = useState<Message[]>([]);
+    const [branchMessages, setBranchMessages] = useState<Message[]>([]);
+    const [editingMessage, setEditingMessage] = useState<Message | null>(null);
     const [input, setInput] = useState("");
     const [isStreaming, setIsStreaming] = useState(false);
     const [currentAssistantMessage, setCurrentAssistantMessage] = useState("");
     const [sessionId, setSessionId] = useState<string | null>(initialSessionId || null);
     const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
     const [isThinking, setIsThinking] = useState(false);
-    const [thoughtSummaries, setThoughtSummaries] = useState<string[]>([]);
+    const [currentThoughts, setCurrentThoughts] = useState("");
+    const [currentToolCalls, setCurrentToolCalls] = useState<ToolCallStep[]>([]);
+    const [currentCodeExecutions, setCurrentCodeExecutions] = useState<CodeExecutionStep[]>([]);
+    const [currentModel, setCurrentModel] = useState<string | null>(null);
+    const [currentCandidates, setCurrentCandidates] = useState<CandidateContent[]>([]);
+    const [summaries, setSummaries] = useState<ContextSummary[]>([]);
+    const [pendingMacro, setPendingMacro] = useState<PendingMacro | null>(null);
+    const [isCompacting, setIsCompacting] = useState(false);
+    const [isRunningCommand, setIsRunningCommand] = useState(false);
+    const [isReconnecting, setIsReconnecting] = useState(false);
     const abortControllerRef = useRef<AbortController | null>(null);
+    // Generation id of the reply streaming right now, so a stop can be flagged to the server
+    const generationIdRef = useRef<string | null>(null);
     const streamingAssistantRef = useRef<HTMLDivElement | null>(null);
     const lastAssistantRef = useRef<HTMLDivElement | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
+    const modelInfo = getModelInfo(model);
+    // Summaries of other branches do not cover this one
+    const latestSummary = [...summaries].reverse()
+        .find((summary) => messages.some((message) => message.id === summary.lastMessageId)) ?? null;
+    const branchChildren = indexChildren(mergeBranch(branchMessages, messages));
+    // While a past message is being edited, the next turn branches off just before it
+    const editIndex = editingMessage ? messages.indexOf(editingMessage) : -1;
+    const turnBase = editIndex >= 0 ? messages.slice(0, editIndex) : messages;
+    // Count what the next request would actually send under the session's context strategy
+    const history = selectHistory(turnBase, contextSettings, latestSummary, systemInstruction);
+    // URL context attaches to the turn it was added in, so URLs already sent are not sent again
+    const sentUrls = new Set(turnBase.flatMap((message) => message.urls ?? []));
+    const pendingUrls = parseUrlList(urlContext).filter((url) => !sentUrls.has(url));
+    // The draft is counted as it would be sent: commands stripped, a macro expanded, on the turn's model
+    const parsedInput = commandParser.parse(input);
+    const commandErrors = parsedInput.errors;
+    const draftTemplate = parsedInput.options.template;
+    const draft = draftTemplate
+        ? [fillTemplate(draftTemplate.text, draftTemplate.values), parsedInput.cleanedPrompt].filter(Boolean).join("\n\n")
+        : parsedInput.cleanedPrompt;
+    const turnModel = parsedInput.options.model ?? model;
+    const turnModelInfo = getModelInfo(turnModel);
+    const commandMenu = useCommandMenu(input, setInput, textareaRef);
+    const {tokenCount} = useTokenCount({
+        messages: history.messages,
+        draft,
+        model: turnModel,
+        systemInstruction: history.systemInstruction,
+        draftUrls: pendingUrls,
+        enabled: !isStreaming,
+    });
 
     // Load session messages on mount
     useEffect(() => {
@@ -71,6 +260,20 @@ export function ChatInterface({
         }
     }, [initialSessionId]);
 
+    // Replies the server is still writing, e.g. after reopening a session mid-answer, are polled until done
+    const pendingReplyKey = messages
+        .filter((message) => message.status === 'streaming' && message.id)
+        .map((message) => message.id)
+        .join(',');
+    useEffect(() => {
+        if (!pendingReplyKey) return;
+        const timer = setInterval(async () => {
+            const stored = await fetchStoredMessages(pendingReplyKey.split(','));
+            if (stored.length > 0) replaceStoredMessages(stored);
+        }, STORED_REPLY_POLL_MS);
+        return () => clearInterval(timer);
+    }, [pendingReplyKey]);
+
     const scrollToBottom = () => {
         if (scrollContainerRef.current) {
             scrollContainerRef.current.scrollTo({
@@ -84,57 +287,54 @@ export function ChatInterface({
         try {
             const {data, error} = await supabase
                 .from('messages')
-                .select('*')
+                .select(MESSAGE_COLUMNS)
                 .eq('session_id', id)
                 .order('created_at', {ascending: true});
 
             if (error) throw error;
 
+            const {data: session, error: sessionError} = await supabase
+                .from('sessions')
+                .select('active_message_id')
+                .eq('id', id)
+                .maybeSingle();
+            if (sessionError) console.error('Error loading the active branch:', sessionError);
+
+            const {data: summaryRows, error: summaryError} = await supabase
+                .from('context_summaries')
+                .select('id, content, last_message_id, model, created_at')
+                .eq('session_id', id)
+                .order('created_at', {ascending: true});
+
+            if (summaryError) console.error('Error loading context summaries:', summaryError);
+            setSummaries((summaryRows ?? []).map((row) => ({
+                id: row.id,
+                content: row.content,
+                lastMessageId: row.last_message_id,
+                model: row.model,
+                createdAt: row.created_at,
+            })));
+
             if (data) {
-                const messagesWithAttachments = await Promise.all(
-                    data.map(async (msg) => {
-                        const {data: attachments} = await supabase
-                            .from('message_attachments')
-                            .select('file_path, mime_type')
-                            .eq('message_id', msg.id);
-
-                        const attachmentUrls: string[] = [];
-                        if (attachments && attachments.length > 0) {
-                            for (const att of attachments) {
-                                try {
-                                    // Download file from storage
-                                    const {data: fileData, error: downloadError} = await supabase.storage
-                                        .from('chat-attachments')
-                                        .download(att.file_path);
-
-                                    if (downloadError) {
-                                        console.error('Error downloading file:', downloadError);
-                                        continue;
-                                    }
+                // Sign every attachment path in one round trip instead of downloading the files
+                const paths = data.flatMap((msg) => msg.message_attachments.map((att) => att.file_path));
+                const previewUrls = new Map<string, string>();
+                if (paths.length > 0) {
+                    const {data: signed, error: signError} = await supabase.storage
+                        .from('chat-attachments')
+                        .createSignedUrls(paths, ATTACHMENT_PREVIEW_TTL_SECONDS);
 
-                                    // Convert blob to base64 data URL
-                                    const base64Promise = new Promise<string>((resolve, reject) => {
-                                        const reader = new FileReader();
-                                        reader.onloadend = () => resolve(reader.result as string);
-                                        reader.onerror = reject;
-                                        reader.readAsDataURL(fileData);
-                                    });
-                                    const base64Data = await base64Promise;
-                                    attachmentUrls.push(base64Data);
-                                } catch (error) {
-                                    console.error('Error processing attachment:', error);
-                                }
-                            }
-                        }
-
-                        return {
-                            role: msg.role as 'user' | 'assistant',
-                            content: msg.content,
-                            attachments: attachmentUrls.length > 0 ? attachmentUrls : undefined
-                        };
-                    })
-                );
-                setMessages(messagesWithAttachments);
+                    if (signError) console.error('Error signing attachment URLs:', signError);
+                    for (const entry of signed ?? []) {
+                        if (entry.path && entry.signedUrl) previewUrls.set(entry.path, entry.signedUrl);
+                    }
+                }
+
+                // Only the branch last looked at is shown; the others stay reachable through the switchers
+                const tree = data.map((msg) => toMessage(msg, previewUrls));
+                setBranchMessages(tree);
+                setMessages(resolveActivePath(tree, session?.active_message_id));
+                setEditingMessage(null);
             }
         } catch (error) {
             console.error('Error loading session:', error);
@@ -156,7 +356,13 @@ export function ChatInterface({
                     user_id: user.id,
                     model,
                     temperature,
+                    generation_params: (generationParams as Json) ?? {},
                     json_mode: jsonMode,
+                    response_schema: (responseSchema as unknown as Json) ?? null,
+                    context_strategy: contextSettings.strategy,
+                    context_turns: contextSettings.turns,
+                    enabled_tools: enabledTools ?? [],
+                    fallback_models: fallbackModels ?? [],
                 })
                 .select()
                 .single();
@@ -170,22 +376,116 @@ export function ChatInterface({
         }
     };
 
-    const saveMessage = async (sessionId: string, role: 'user' | 'assistant', content: string) => {
+    // gemini-chat saves replies itself; these read back what it stored
+    const fetchStoredMessages = async (ids: string[]): Promise<Message[]> => {
+        const {data, error} = await supabase
+            .from('messages')
+            .select(MESSAGE_COLUMNS)
+            .in('id', ids);
+
+        if (error) {
+            console.error('Error loading saved messages:', error);
+            return [];
+        }
+        return (data ?? []).map((row) => toMessage(row, new Map()));
+    };
+
+    const replaceStoredMessages = (stored: Message[]) => {
+        const byId = new Map(stored.map((message) => [message.id, message]));
+        setMessages((prev) => prev.map((message) => (message.id && byId.get(message.id)) || message));
+    };
+
+    // Promote another candidate to be the answer later turns build on
+    const handleSelectCandidate = async (target: Message, index: number) => {
+        const candidate = target.candidates?.[index];
+        if (!candidate) return;
+
+        const updated: Message = {
+            ...target,
+            content: candidate.content,
+            thoughts: candidate.thoughts,
+            finishReason: candidate.finishReason,
+            grounding: candidate.grounding,
+            codeExecutions: candidate.codeExecutions,
+            schemaValidation: candidate.schemaValidation,
+            selectedCandidate: index,
+        };
+        setMessages((prev) => prev.map((message) => (message === target ? updated : message)));
+
+        if (!target.id) return;
+        const {error} = await supabase
+            .from('messages')
+            .update({
+                content: candidate.content,
+                thoughts: candidate.thoughts || null,
+                finish_reason: candidate.finishReason || null,
+                grounding: (candidate.grounding as unknown as Json) ?? null,
+                code_executions: (candidate.codeExecutions as unknown as Json) ?? null,
+                schema_validation: (candidate.schemaValidation as unknown as Json) ?? null,
+                selected_candidate: index,
+            })
+            .eq('id', target.id);
+
+        if (error) {
+            console.error('Error saving candidate choice:', error);
+            toast.error('Failed to save candidate choice');
+        }
+    };
+
+    // Folds older turns into a new rolling summary; on failure the full history is sent instead
+    const compactHistory = async (
+        currentSessionId: string,
+        history: Message[],
+        force: boolean
+    ): Promise<ContextSummary | null> => {
+        const plan = planCompaction(history, contextSettings, latestSummary, force);
+        if (!plan) return null;
+
+        setIsCompacting(true);
         try {
-            const {error} = await supabase
-                .from('messages')
+            const {summary: content, model: summaryModel} = await summarizeHistory(plan.messages, latestSummary?.content);
+            const {data, error} = await supabase
+                .from('context_summaries')
                 .insert({
-                    session_id: sessionId,
-                    role,
+                    session_id: currentSessionId,
                     content,
-                });
+                    last_message_id: plan.lastMessageId,
+                    model: summaryModel,
+                })
+                .select('id, created_at')
+                .single();
 
             if (error) throw error;
+
+            const summary: ContextSummary = {
+                id: data.id,
+                content,
+                lastMessageId: plan.lastMessageId,
+                model: summaryModel,
+                createdAt: data.created_at,
+            };
+            setSummaries((prev) => [...prev, summary]);
+            return summary;
         } catch (error) {
-            console.error('Error saving message:', error);
+            console.error('Error compacting history:', error);
+            toast.error('Failed to compact earlier messages', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+            return null;
+        } finally {
+            setIsCompacting(false);
         }
     };
 
+    const clearStreamingState = () => {
+        setCurrentAssistantMessage("");
+        setCurrentThoughts("");
+        setCurrentToolCalls([]);
+        setCurrentCodeExecutions([]);
+        setCurrentModel(null);
+        setCurrentCandidates([]);
+    };
+
     const generateChatName = async (userMessage: string, assistantResponse: string, sessionId: string) => {
         try {
             const {data, error} = await supabase.functions.invoke('name-chat', {
@@ -205,12 +505,68 @@ export function ChatInterface({
         }
     };
 
-    const handleSend = async () => {
-        if ((!input.trim() && attachedFiles.length === 0) || isStreaming) return;
+    const handleSend = async (skipLimitCheck = false, macroValues?: Record<string, string>) => {
+        if ((!input.trim() && attachedFiles.length === 0) || isStreaming || isCompacting || isRunningCommand) return;
+
+        // Commands override settings for this turn only; their errors are shown under the input
+        const {cleanedPrompt, options: {compact, template, run, ...overrides}, errors} = commandParser.parse(input);
+        if (errors.length > 0) return;
+
+        // A macro expands to its template, followed by whatever else was typed; missing variables are asked for first
+        let prompt = cleanedPrompt;
+        if (template) {
+            const values = {...template.values, ...macroValues};
+            const missing = findTemplateVariables(template.text).filter((name) => values[name] === undefined);
+            if (missing.length > 0) {
+                setPendingMacro({name: template.name, missing, values});
+                return;
+            }
+            prompt = [fillTemplate(template.text, values), cleanedPrompt].filter(Boolean).join("\n\n");
+        }
 
-        // Parse commands from input
-        const {cleanedPrompt, options} = commandParser.parse(input);
-        const useWebSearch = options.useWebSearch || false;
+        if (run) {
+            await runConversationCommand(run, prompt, overrides);
+            return;
+        }
+        const contextWindow = turnModelInfo?.contextWindow;
+        if (!skipLimitCheck && contextWindow && tokenCount !== null && tokenCount > contextWindow) {
+            toast.warning("This conversation no longer fits the model's context window", {
+                description: `${tokenCount.toLocaleString()} of ${contextWindow.toLocaleString()} tokens. Gemini will likely reject it.`,
+                action: {label: "Send anyway", onClick: () => void handleSend(true, macroValues)},
+            });
+            return;
+        }
+
+        let summary = latestSummary;
+        let requestContext = contextSettings;
+        if (compact) {
+            const compacted = sessionId && planCompaction(turnBase, contextSettings, latestSummary, true)
+                ? await compactHistory(sessionId, turnBase, true)
+                : undefined;
+            if (compacted === undefined) {
+                toast.info("Nothing to compact yet");
+            } else if (compacted) {
+                summary = compacted;
+                // A summary only changes what is sent under the rolling summary strategy
+                if (contextSettings.strategy !== "summarize") {
+                    requestContext = {...contextSettings, strategy: "summarize"};
+                    onContextSettingsChange?.(requestContext);
+                    toast.info("Context strategy switched to rolling summary");
+                }
+            }
+            if (!prompt && attachedFiles.length === 0) {
+                setInput("");
+                return;
+            }
+        }
+
+        const paramErrors = turnModelInfo && generationParams
+            ? Object.values(validateGenerationParams(turnModelInfo, generationParams))
+            : [];
+        if (paramErrors.length > 0) {
+            toast.error("Fix the sampling settings before sending", {description: paramErrors[0]});
+            return;
+        }
 
         // Create session if this is the first message
         let currentSessionId = sessionId;
@@ -219,41 +575,45 @@ export function ChatInterface({
             if (!currentSessionId) return;
             setSessionId(currentSessionId);
             onSessionCreated?.(currentSessionId);
+        } else {
+            // The session keeps the settings of its latest run so it can be reproduced
+            const {error: settingsError} = await supabase
+                .from('sessions')
+                .update({
+                    temperature,
+                    generation_params: (generationParams as Json) ?? {},
+                    context_strategy: requestContext.strategy,
+                    context_turns: requestContext.turns,
+                    enabled_tools: enabledTools ?? [],
+                    fallback_models: fallbackModels ?? [],
+                })
+                .eq('id', currentSessionId);
+            if (settingsError) console.error('Error saving session settings:', settingsError);
         }
 
-        // Convert files to base64 and upload to storage
-        const attachmentUrls: string[] = [];
-        const filePaths: string[] = [];
-        const fileNames: string[] = [];
+        // Upload files to storage; the edge function reads them back by path
+        const attachmentUrls: Attachment[] = [];
         if (attachedFiles.length > 0) {
             try {
                 const {data: {user}} = await supabase.auth.getUser();
                 if (!user) throw new Error("User not authenticated");
 
                 for (const file of attachedFiles) {
-                    // Convert to base64 for sending to LLM
-                    const reader = new FileReader();
-                    const base64Promise = new Promise<string>((resolve) => {
-                        reader.onloadend = () => {
-                            const base64 = reader.result as string;
-                            resolve(base64);
-                        };
-                        reader.readAsDataURL(file);
-                    });
-                    const base64Data = await base64Promise;
-                    attachmentUrls.push(base64Data);
-
                     // Generate safe filename (ASCII only) for storage
-                    const timestamp = Date.now();
                     const fileExt = file.name.split('.').pop() || '';
-                    const safePath = `${user.id}/${timestamp}.${fileExt}`;
-
-                    filePaths.push(safePath);
-                    fileNames.push(file.name); // Store original name
+                    const safePath = `${user.id}/${crypto.randomUUID()}.${fileExt}`;
+                    const mimeType = resolveMimeType(file.name, file.type);
+                    attachmentUrls.push({
+                        name: file.name,
+                        mimeType,
+                        path: safePath,
+                        size: file.size,
+                        previewUrl: URL.createObjectURL(file),
+                    });
 
                     const {error: uploadError} = await supabase.storage
                         .from('chat-attachments')
-                        .upload(safePath, file);
+                        .upload(safePath, file, {contentType: mimeType});
 
                     if (uploadError) throw uploadError;
                 }
@@ -264,118 +624,466 @@ export function ChatInterface({
             }
         }
 
+        // An edited message keeps its attachments and URLs and becomes a sibling of the original
+        const edited = editIndex >= 0 ? editingMessage : null;
         const userMessage: Message = {
+            parentId: turnBase[turnBase.length - 1]?.id,
             role: "user",
-            content: cleanedPrompt || "Analyze the attached files",
-            attachments: attachmentUrls
+            content: prompt || "Analyze the attached files",
+            attachments: [...(edited?.attachments ?? []), ...attachmentUrls],
+            urls: edited?.urls ?? (pendingUrls.length > 0 ? pendingUrls : undefined)
         };
-        const userContent = cleanedPrompt || "Analyze the attached files";
-        setMessages((prev) => [...prev, userMessage]);
+        const userContent = prompt || "Analyze the attached files";
+        if (edited) {
+            setBranchMessages((prev) => mergeBranch(prev, messages));
+            setMessages([...turnBase, userMessage]);
+            setEditingMessage(null);
+        } else {
+            setMessages((prev) => [...prev, userMessage]);
+        }
         setInput("");
         setAttachedFiles([]);
         setIsStreaming(true);
-        setCurrentAssistantMessage("");
-
-        // Save user message with ID returned
-        const {data: savedMessage, error: saveError} = await supabase
-            .from("messages")
-            .insert({
-                session_id: currentSessionId,
-                role: "user",
-                content: userContent,
-            })
-            .select()
-            .single();
+        clearStreamingState();
 
         scrollToBottom();
 
-        if (saveError) {
-            console.error("Error saving message:", saveError);
-        }
-
-        // Save attachments metadata with file paths
-        if (filePaths.length > 0 && savedMessage) {
-            const attachmentsData = filePaths.map((filePath, index) => ({
-                message_id: savedMessage.id,
-                file_name: fileNames[index], // Use original filename
-                file_path: filePath,
-                file_size: attachedFiles[index].size,
-                mime_type: attachedFiles[index].type,
-            }));
-
-            const {error: attachError} = await supabase
-                .from("message_attachments")
-                .insert(attachmentsData);
-
-            if (attachError) console.error("Failed to save attachments:", attachError);
+        if (requestContext.strategy === "summarize" && !compact) {
+            summary = await compactHistory(currentSessionId, turnBase, false) ?? summary;
         }
+        const request = selectHistory(
+            [...turnBase, userMessage],
+            requestContext,
+            summary,
+            overrides.systemInstruction ?? systemInstruction
+        );
+        const isFirstMessage = messages.length === 0;
 
-        abortControllerRef.current = new AbortController();
+        await streamReply({
+            sessionId: currentSessionId,
+            request,
+            overrides,
+            userMessage,
+            onComplete: async (reply) => {
+                // Generate chat name if this is the first exchange
+                if (isFirstMessage && currentSessionId) {
+                    await generateChatName(userContent, reply.content, currentSessionId);
+                }
+            },
+        });
+    };
 
-        let assistantResponse = "";
-        const isFirstMessage = messages.length === 0;
+    // Streams one reply into the transcript; a continuation extends a saved reply instead of answering a new turn
+    const streamReply = async ({
+                                   sessionId: replySessionId,
+                                   request,
+                                   overrides,
+                                   userMessage,
+                                   continueFrom,
+                                   onComplete
+                               }: ReplyRequest) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        generationIdRef.current = null;
 
-        await streamGeminiChat({
-            messages: [...messages, userMessage],
+        // The chat's settings with this turn's command overrides on top
+        const settings = {
             model,
             temperature,
+            generation: generationParams,
             jsonMode,
             useWebSearch,
-            systemInstruction,
-            urlContext,
+            useCodeExecution,
             thinkingBudget,
             safetySettings,
-            signal: abortControllerRef.current.signal,
-            onToken: (token) => {
-                assistantResponse += token;
-                setCurrentAssistantMessage(assistantResponse);
+            enabledTools,
+            fallbackModels,
+            responseSchema,
+            ...overrides,
+        };
+
+        // One entry per candidate channel; a single-candidate answer only uses the first.
+        // A continuation only extends the candidate that was kept.
+        const candidateCount = continueFrom ? 1 : settings.generation?.candidateCount ?? 1;
+        const candidates: CandidateContent[] = continueFrom ? [{
+            content: continueFrom.content,
+            thoughts: continueFrom.thoughts,
+            grounding: continueFrom.grounding,
+            codeExecutions: continueFrom.codeExecutions,
+        }] : [];
+        const candidateAt = (index: number) => {
+            while (candidates.length <= index) candidates.push({content: ""});
+            return candidates[index];
+        };
+        const publishCandidate = (index: number) => {
+            if (index === 0) {
+                setCurrentAssistantMessage(candidates[0].content);
+                setCurrentThoughts(candidates[0].thoughts ?? "");
+                setCurrentCodeExecutions(candidates[0].codeExecutions ?? []);
+            }
+            if (candidateCount > 1) setCurrentCandidates(candidates.map((candidate) => ({...candidate})));
+        };
+        let toolCalls: ToolCallStep[] = continueFrom?.toolCalls ?? [];
+        let answeredBy: string | undefined = continueFrom?.model;
+        let usage: TokenUsage | undefined;
+        let assistantMessageId: string | undefined = continueFrom?.id;
+        let replyParentId: string | undefined = continueFrom?.parentId;
+
+        if (continueFrom) {
+            publishCandidate(0);
+            setCurrentToolCalls(toolCalls);
+        }
+
+        // Schema validation only applies to answers that finished
+        const toAssistantMessage = (status?: MessageStatus): Message => {
+            // An empty stream still yields one (empty) answer
+            candidateAt(0);
+            const finished = candidates.map((candidate) => ({
+                ...candidate,
+                thoughts: candidate.thoughts || undefined,
+                schemaValidation: !status && settings.jsonMode && settings.responseSchema
+                    ? validateJsonResponse(candidate.content, settings.responseSchema)
+                    : undefined,
+            }));
+            const [first] = finished;
+            return {
+                id: assistantMessageId,
+                parentId: replyParentId,
+                role: "assistant",
+                content: first.content,
+                thoughts: first.thoughts,
+                finishReason: first.finishReason,
+                grounding: first.grounding,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                codeExecutions: first.codeExecutions,
+                model: answeredBy,
+                schemaValidation: first.schemaValidation,
+                ...(finished.length > 1 && {candidates: finished, selectedCandidate: 0}),
+                usage,
+                status,
+            };
+        };
+
+        await streamGeminiChat({
+            messages: request.messages,
+            ...settings,
+            generation: continueFrom ? {...settings.generation, candidateCount: 1} : settings.generation,
+            systemInstruction: request.systemInstruction,
+            sessionId: replySessionId,
+            continueMessageId: continueFrom?.id,
+            parentMessageId: userMessage?.parentId,
+            signal: controller.signal,
+            onStart: ({requestId, userMessageId, assistantMessageId: savedReplyId}) => {
+                generationIdRef.current = requestId;
+                assistantMessageId = savedReplyId;
+                // Later compactions can only anchor summaries to saved messages
+                if (userMessage && userMessageId) {
+                    replyParentId = userMessageId;
+                    setMessages((prev) => prev.map((message) =>
+                        message === userMessage ? {...message, id: userMessageId} : message
+                    ));
+                }
+            },
+            onToken: (token, index) => {
+                candidateAt(index).content += token;
+                publishCandidate(index);
             },
             onThinking: (thinking) => {
                 setIsThinking(thinking);
             },
-            onThoughtSummary: (summary) => {
-                setThoughtSummaries((prev) => [...prev, summary]);
+            onThoughtSummary: (summary, index) => {
+                const candidate = candidateAt(index);
+                candidate.thoughts = (candidate.thoughts ?? "") + summary;
+                publishCandidate(index);
+            },
+            onToolCall: (step) => {
+                toolCalls = [...toolCalls, step];
+                setCurrentToolCalls(toolCalls);
+            },
+            onToolResult: ({callId, result, error}) => {
+                toolCalls = toolCalls.map((step) =>
+                    step.callId === callId ? {...step, result, error} : step
+                );
+                setCurrentToolCalls(toolCalls);
+            },
+            onCodeExecution: (step, index) => {
+                const candidate = candidateAt(index);
+                candidate.codeExecutions = [
+                    ...(candidate.codeExecutions ?? []),
+                    {...step, offset: candidate.content.length},
+                ];
+                publishCandidate(index);
+            },
+            onCodeExecutionResult: (result, index) => {
+                // A result answers the code emitted just before it
+                const candidate = candidateAt(index);
+                const steps = candidate.codeExecutions ?? [];
+                const last = steps[steps.length - 1];
+                if (!last || last.outcome !== undefined) return;
+                candidate.codeExecutions = [...steps.slice(0, -1), {...last, ...result}];
+                publishCandidate(index);
+            },
+            onModel: (answeringModel) => {
+                answeredBy = answeringModel;
+                setCurrentModel(answeringModel);
+                if (answeringModel !== settings.model) {
+                    toast.info(`${getModelLabel(settings.model)} is unavailable right now`, {
+                        description: `Answered with ${getModelLabel(answeringModel)} instead.`,
+                    });
+                }
+            },
+            onMetadata: (metadata) => {
+                usage = metadata;
+            },
+            onWarning: (message) => {
+                toast.warning(message);
+            },
+            onReconnecting: setIsReconnecting,
+            onGrounding: (metadata, index) => {
+                candidateAt(index).grounding = metadata;
+            },
+            onFinish: (reason, index) => {
+                candidateAt(index).finishReason = reason;
             },
             onComplete: async () => {
-                setMessages((prev) => [
-                    ...prev,
-                    {role: "assistant", content: assistantResponse},
-                ]);
-                setCurrentAssistantMessage("");
+                const assistantMessage = toAssistantMessage();
+                setMessages((prev) => [...prev, assistantMessage]);
+                clearStreamingState();
+                setIsThinking(false);
+                setIsReconnecting(false);
                 setIsStreaming(false);
                 abortControllerRef.current = null;
 
-                // Save assistant message
-                if (currentSessionId) {
-                    await saveMessage(currentSessionId, "assistant", assistantResponse);
-
-                    // Generate chat name if this is the first exchange
-                    if (isFirstMessage) {
-                        await generateChatName(userContent, assistantResponse, currentSessionId);
+                if (assistantMessageId) {
+                    // Schema validation runs in the browser, so the server-saved reply lacks it
+                    if (assistantMessage.schemaValidation) {
+                        const {error: validationError} = await supabase
+                            .from('messages')
+                            .update({
+                                schema_validation: (assistantMessage.schemaValidation as unknown as Json) ?? null,
+                                candidates: (assistantMessage.candidates as unknown as Json) ?? null,
+                            })
+                            .eq('id', assistantMessageId);
+                        if (validationError) console.error('Error saving schema validation:', validationError);
                     }
+                    replaceStoredMessages(await fetchStoredMessages([assistantMessageId]));
                 }
+
+                await onComplete?.(assistantMessage);
             },
-            onError: (error) => {
-                console.error("Stream error:", error);
-                toast.error("Failed to get response from Gemini");
+            onError: async (error) => {
+                const stopped = controller.signal.aborted;
+                const partial = toAssistantMessage("stopped");
+                if (!stopped) console.error("Stream error:", error);
                 setIsStreaming(false);
-                setCurrentAssistantMessage("");
+                setIsThinking(false);
+                setIsReconnecting(false);
+                clearStreamingState();
                 abortControllerRef.current = null;
+
+                // A stopped reply keeps what already arrived until the server has saved its own copy
+                if (stopped) {
+                    if (partial.content || partial.thoughts || partial.toolCalls || partial.codeExecutions) {
+                        setMessages((prev) => [...prev, partial]);
+                        if (assistantMessageId) void settleStoppedReply(assistantMessageId);
+                    }
+                    return;
+                }
+
+                // Whatever the server saved of the reply stays; one still being written is polled
+                const [stored] = assistantMessageId ? await fetchStoredMessages([assistantMessageId]) : [];
+                if (stored) {
+                    setMessages((prev) => [...prev, stored]);
+                }
+
+                if (stored?.status === "streaming") {
+                    toast.info("Lost the connection to Gemini", {
+                        description: "The reply is still being generated and will appear here when it finishes.",
+                    });
+                } else if (error instanceof GeminiStreamError && error.code === "rate_limited") {
+                    toast.error("Rate limit reached", {
+                        description: error.retryAfter
+                            ? `Try again in ${error.retryAfter} seconds.`
+                            : error.message,
+                    });
+                } else if (error instanceof GeminiStreamError && error.code === "unauthorized") {
+                    toast.error("Your session has expired", {description: "Sign in again to continue."});
+                } else {
+                    toast.error("Failed to get response from Gemini", {description: error.message});
+                }
             },
         });
     };
 
-    const handleStop = () => {
-        if (abortControllerRef.current) {
-            abortControllerRef.current.abort();
-            setIsStreaming(false);
-            abortControllerRef.current = null;
+    // The server marks a stopped reply once it notices the stop; a reply still streaming after that is left to the poller
+    const settleStoppedReply = async (id: string) => {
+        for (let attempt = 1; attempt <= STOP_SETTLE_ATTEMPTS; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, STOP_SETTLE_POLL_MS));
+            const [stored] = await fetchStoredMessages([id]);
+            if (!stored) return;
+            if (stored.status !== 'streaming' || attempt === STOP_SETTLE_ATTEMPTS) {
+                replaceStoredMessages([stored]);
+                return;
+            }
+        }
+    };
+
+    const handleStop = async () => {
+        const controller = abortControllerRef.current;
+        if (!controller) return;
+        abortControllerRef.current = null;
+
+        // Flagged before hanging up, so the server cancels the generation instead of finishing it for a resume
+        if (generationIdRef.current) {
+            const {error} = await supabase
+                .from('generations')
+                .update({stop_requested: true})
+                .eq('id', generationIdRef.current);
+            if (error) console.error('Error stopping generation:', error);
         }
+        controller.abort();
+    };
+
+    // Conversation commands work on the transcript or the draft instead of sending a turn
+    const runConversationCommand = async (
+        run: NonNullable<CommandOptions["run"]>,
+        draft: string,
+        overrides: TurnSettings
+    ) => {
+        const command = input.trim();
+        let outcome: Awaited<ReturnType<typeof run>>;
+        setIsRunningCommand(true);
+        try {
+            outcome = await run({
+                history: messages,
+                draft,
+                generate: (prompt, settings) => generateText({
+                    prompt,
+                    model: overrides.model ?? settings?.model ?? model,
+                    temperature: overrides.temperature ?? settings?.temperature ?? temperature,
+                    systemInstruction: overrides.systemInstruction ?? settings?.systemInstruction,
+                }),
+            });
+        } catch (error) {
+            console.error('Error running command:', error);
+            toast.error(error instanceof Error ? error.message : "The command failed");
+            return;
+        } finally {
+            setIsRunningCommand(false);
+        }
+
+        switch (outcome.type) {
+            case "draft":
+                setInput(outcome.text);
+                requestAnimationFrame(() => textareaRef.current?.focus());
+                break;
+            case "message":
+                setInput("");
+                await appendCommandExchange(command, outcome.content, outcome.model);
+                break;
+            case "continue":
+                setInput("");
+                await handleContinue(outcome.message);
+                break;
+        }
+    };
+
+    // Saves the command and its result as one exchange, so later turns see what was asked
+    const appendCommandExchange = async (command: string, content: string, replyModel: string) => {
+        const exchange: Message[] = [
+            {parentId: messages[messages.length - 1]?.id, role: "user", content: command},
+            {role: "assistant", content, model: replyModel},
+        ];
+        if (!sessionId) {
+            setMessages((prev) => [...prev, ...exchange]);
+            return;
+        }
+
+        const saved: Message[] = [];
+        try {
+            // One insert per row, each under the one before, so created_at keeps them in order
+            let parentId = exchange[0].parentId;
+            for (const message of exchange) {
+                const {data, error} = await supabase
+                    .from('messages')
+                    .insert({
+                        session_id: sessionId,
+                        parent_id: parentId ?? null,
+                        role: message.role,
+                        content: message.content,
+                        model: message.model ?? null,
+                    })
+                    .select(MESSAGE_COLUMNS)
+                    .single();
+                if (error) throw error;
+                saved.push(toMessage(data, new Map()));
+                parentId = data.id;
+            }
+            if (parentId) await saveActiveBranch(parentId);
+        } catch (error) {
+            console.error('Error saving command result:', error);
+            toast.error("Failed to save the command result");
+        }
+        setMessages((prev) => [...prev, ...exchange.map((message, index) => saved[index] ?? message)]);
+        scrollToBottom();
+    };
+
+    // Remembers the branch on screen, so reopening the session shows it again
+    const saveActiveBranch = async (leafId: string) => {
+        if (!sessionId) return;
+        const {error} = await supabase
+            .from('sessions')
+            .update({active_message_id: leafId})
+            .eq('id', sessionId);
+        if (error) console.error('Error saving the active branch:', error);
+    };
+
+    // Shows another branch under the same parent, following its newest replies
+    const handleSwitchBranch = async (target: Message, position: number) => {
+        const sibling = branchChildren.get(target.parentId ?? null)?.[position];
+        if (!sibling?.id || isStreaming || isCompacting || isRunningCommand) return;
+
+        const tree = mergeBranch(branchMessages, messages);
+        const path = resolveActivePath(tree, sibling.id);
+        setBranchMessages(tree);
+        setMessages(path);
+        setEditingMessage(null);
+
+        const leaf = path[path.length - 1];
+        if (leaf?.id) await saveActiveBranch(leaf.id);
+    };
+
+    // The edited text is sent from the composer and starts a new branch beside the original
+    const handleEdit = (target: Message) => {
+        setEditingMessage(target);
+        setInput(target.content);
+        requestAnimationFrame(() => textareaRef.current?.focus());
+    };
+
+    const handleCancelEdit = () => {
+        setEditingMessage(null);
+        setInput("");
+    };
+
+    // Picks a stopped or interrupted last reply back up, streaming the rest into the same message
+    const handleContinue = async (target: Message) => {
+        if (!sessionId || !target.id || isStreaming || isCompacting) return;
+
+        const request = selectHistory(messages, contextSettings, latestSummary, systemInstruction);
+        setMessages((prev) => prev.filter((message) => message !== target));
+        setIsStreaming(true);
+        clearStreamingState();
+        scrollToBottom();
+
+        await streamReply({sessionId, request, continueFrom: target});
     };
 
     const handleNewSession = () => {
         setMessages([]);
-        setCurrentAssistantMessage("");
+        setBranchMessages([]);
+        setEditingMessage(null);
+        setSummaries([]);
+        clearStreamingState();
         setInput("");
         setAttachedFiles([]);
         setSessionId(null);
@@ -398,9 +1106,20 @@ export function ChatInterface({
             return;
         }
 
+        for (const file of validFiles) {
+            if (!isFileSupported(file)) {
+                toast.warning(`${modelInfo?.label ?? model} cannot read ${file.name}`, {
+                    description: "It will be skipped unless you switch to a model that supports this file type.",
+                });
+            }
+        }
+
         setAttachedFiles(prev => [...prev, ...validFiles]);
     };
 
+    const isFileSupported = (file: File) =>
+        !modelInfo || isAttachmentSupported(modelInfo, resolveMimeType(file.name, file.type));
+
     const removeFile = (index: number) => {
         setAttachedFiles(prev => prev.filter((_, i) => i !== index));
     };
@@ -452,48 +1171,118 @@ export function ChatInterface({
                         )}
 
                         {messages.map((message, index) => (
-                            <div
-                                key={index}
-                                className={cn(
-                                    "flex w-full animate-scale-in",
-                                    message.role === "user" ? "justify-end" : "justify-start"
-                                )}
-                            >
+                            <Fragment key={index}>
                                 <div
                                     className={cn(
-                                        "flex items-start gap-3 max-w-[min(85%,620px)]",
-                                        message.role === "user" && "flex-row-reverse"
+                                        "flex w-full animate-scale-in",
+                                        message.role === "user" ? "justify-end" : "justify-start"
                                     )}
                                 >
                                     <div
                                         className={cn(
-                                            "w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-sm font-medium",
-                                            message.role === "user"
-                                                ? "bg-primary text-primary-foreground"
-                                                : "bg-gradient-accent text-white"
+                                            "flex items-start gap-3 max-w-[min(85%,620px)]",
+                                            message.role === "user" && "flex-row-reverse"
                                         )}
                                     >
-                                        {message.role === "user" ? "U" : "AI"}
+                                        <div
+                                            className={cn(
+                                                "w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-sm font-medium",
+                                                message.role === "user"
+                                                    ? "bg-primary text-primary-foreground"
+                                                    : "bg-gradient-accent text-white"
+                                            )}
+                                        >
+                                            {message.role === "user" ? "U" : "AI"}
+                                        </div>
+                                        <Card
+                                            className={cn(
+                                                "border px-5 py-4 rounded-2xl shadow-sm",
+                                                message.role === "user"
+                                                    ? "bg-primary text-primary-foreground border-transparent"
+                                                    : "bg-card/90 border-border"
+                                            )}
+                                            ref={message.role === "assistant" ? lastAssistantRef : undefined}
+                                        >
+                                            {message.candidates && message.candidates.length > 1 ? (
+                                                <CandidateTabs candidates={message.candidates}
+                                                               selected={message.selectedCandidate ?? 0}
+                                                               onSelect={isStreaming ? undefined : (candidateIndex) => handleSelectCandidate(message, candidateIndex)}
+                                                               renderCandidate={(candidate) => (
+                                                                   <Suspense fallback={<MessageContentFallback/>}>
+                                                                       <MessageContent content={candidate.content}
+                                                                                       thoughts={candidate.thoughts}
+                                                                                       finishReason={candidate.finishReason}
+                                                                                       grounding={candidate.grounding}
+                                                                                       codeExecutions={candidate.codeExecutions}
+                                                                                       schemaValidation={candidate.schemaValidation}
+                                                                                       status={message.status}
+                                                                                       error={message.error}/>
+                                                                   </Suspense>
+                                                               )}/>
+                                            ) : (
+                                                <Suspense fallback={<MessageContentFallback/>}>
+                                                    <MessageContent content={message.content}
+                                                                    attachments={message.attachments}
+                                                                    urls={message.urls}
+                                                                    thoughts={message.thoughts}
+                                                                    finishReason={message.finishReason}
+                                                                    grounding={message.grounding}
+                                                                    toolCalls={message.toolCalls}
+                                                                    codeExecutions={message.codeExecutions}
+                                                                    schemaValidation={message.schemaValidation}
+                                                                    status={message.status}
+                                                                    error={message.error}/>
+                                                </Suspense>
+                                            )}
+                                            {message.role === "assistant" && (message.model || message.usage) && (
+                                                <MessageFooter model={message.model} usage={message.usage}/>
+                                            )}
+                                            {index === messages.length - 1 && message.id && (message.status === "stopped" || message.status === "interrupted") && (
+                                                <Button variant="outline" size="sm" className="mt-3 h-7 gap-1.5 text-xs"
+                                                        disabled={isStreaming || isCompacting}
+                                                        onClick={() => handleContinue(message)}>
+                                                    <Play className="h-3 w-3"/>
+                                                    Continue
+                                                </Button>
+                                            )}
+                                        </Card>
                                     </div>
-                                    <Card
-                                        className={cn(
-                                            "border px-5 py-4 rounded-2xl shadow-sm",
-                                            message.role === "user"
-                                                ? "bg-primary text-primary-foreground border-transparent"
-                                                : "bg-card/90 border-border"
-                                        )}
-                                        ref={message.role === "assistant" ? lastAssistantRef : undefined}
-                                    >
-                                        <Suspense fallback={<MessageContentFallback/>}>
-                                            <MessageContent content={message.content}
-                                                            attachments={message.attachments}/>
-                                        </Suspense>
-                                    </Card>
                                 </div>
-                            </div>
+                                {message.id && (() => {
+                                    const siblings = branchChildren.get(message.parentId ?? null) ?? [];
+                                    const position = siblings.findIndex((sibling) => sibling.id === message.id);
+                                    const canEdit = message.role === "user" && !isStreaming;
+                                    if (siblings.length < 2 && !canEdit) return null;
+                                    return (
+                                        <div className={cn(
+                                            "mt-1 flex items-center gap-1",
+                                            message.role === "user" ? "justify-end pr-11" : "justify-start pl-11"
+                                        )}>
+                                            {siblings.length > 1 && position >= 0 && (
+                                                <BranchSwitcher position={position}
+                                                                count={siblings.length}
+                                                                disabled={isStreaming || isCompacting || isRunningCommand}
+                                                                onSwitch={(next) => handleSwitchBranch(message, next)}/>
+                                            )}
+                                            {canEdit && (
+                                                <Button variant="ghost" size="sm"
+                                                        className="h-6 gap-1 px-2 text-[11px] text-muted-foreground"
+                                                        disabled={isCompacting || isRunningCommand}
+                                                        onClick={() => handleEdit(message)}>
+                                                    <Pencil className="h-3 w-3"/>
+                                                    Edit
+                                                </Button>
+                                            )}
+                                        </div>
+                                    );
+                                })()}
+                                {summaries
+                                    .filter((summary) => message.id && summary.lastMessageId === message.id)
+                                    .map((summary) => <CompactionMarker key={summary.id} summary={summary}/>)}
+                            </Fragment>
                         ))}
 
-                        {currentAssistantMessage && (
+                        {(currentAssistantMessage || currentThoughts || currentToolCalls.length > 0 || currentCodeExecutions.length > 0 || currentCandidates.length > 0) && (
                             <div className="flex w-full justify-start animate-scale-in">
                                 <div className="flex items-start gap-3 max-w-[min(85%,620px)]">
                                     <div
@@ -502,15 +1291,33 @@ export function ChatInterface({
                                     </div>
                                     <Card ref={streamingAssistantRef}
                                           className="border px-5 py-4 rounded-2xl shadow-sm bg-card/90 border-border">
-                                        <Suspense fallback={<MessageContentFallback/>}>
-                                            <MessageContent content={currentAssistantMessage}/>
-                                        </Suspense>
+                                        {currentCandidates.length > 1 ? (
+                                            <CandidateTabs candidates={currentCandidates}
+                                                           renderCandidate={(candidate) => (
+                                                               <Suspense fallback={<MessageContentFallback/>}>
+                                                                   <MessageContent content={candidate.content}
+                                                                                   thoughts={candidate.thoughts}
+                                                                                   codeExecutions={candidate.codeExecutions}
+                                                                                   isThinking={isThinking}/>
+                                                               </Suspense>
+                                                           )}/>
+                                        ) : (
+                                            <Suspense fallback={<MessageContentFallback/>}>
+                                                <MessageContent content={currentAssistantMessage}
+                                                                thoughts={currentThoughts}
+                                                                isThinking={isThinking}
+                                                                toolCalls={currentToolCalls}
+                                                                codeExecutions={currentCodeExecutions}/>
+                                            </Suspense>
+                                        )}
+                                        {currentModel && <MessageFooter model={currentModel}/>}
+                                        {isReconnecting && <ReconnectingNotice/>}
                                     </Card>
                                 </div>
                             </div>
                         )}
 
-                        {isStreaming && !currentAssistantMessage && (
+                        {isStreaming && !currentAssistantMessage && !currentThoughts && currentToolCalls.length === 0 && currentCodeExecutions.length === 0 && currentCandidates.length === 0 && (
                             <div className="flex w-full justify-start animate-fade-in">
                                 <div className="flex items-start gap-3 max-w-[min(85%,620px)]">
                                     <div
@@ -520,7 +1327,11 @@ export function ChatInterface({
                                     {/* Placeholder card for streaming, attach ref so we can scroll immediately */}
                                     <Card ref={streamingAssistantRef}
                                           className="border px-5 py-4 rounded-2xl shadow-sm bg-card/90 border-border">
-                                        {isThinking ? (
+                                        {isCompacting ? (
+                                            <span className="text-sm text-muted-foreground italic">Compacting earlier messages...</span>
+                                        ) : isReconnecting ? (
+                                            <span className="text-sm text-muted-foreground italic">Reconnecting...</span>
+                                        ) : isThinking ? (
                                             <div className="flex items-center gap-2">
                                                 <div className="flex gap-1">
                                                     <div className="w-2 h-2 bg-primary rounded-full animate-bounce"
@@ -548,25 +1359,6 @@ export function ChatInterface({
                             </div>
                         )}
 
-                        {thoughtSummaries.length > 0 && (
-                            <div className="flex w-full justify-start animate-fade-in">
-                                <div className="flex items-start gap-3 max-w-[min(85%,620px)]">
-                                    <div
-                                        className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                                        <span className="text-primary text-sm">💭</span>
-                                    </div>
-                                    <Card
-                                        className="border px-5 py-4 rounded-2xl shadow-sm bg-primary/5 border-primary/20">
-                                        <div className="space-y-2">
-                                            <p className="text-sm font-medium text-primary">Thought Summaries</p>
-                                            {thoughtSummaries.map((summary, i) => (
-                                                <p key={i} className="text-xs text-muted-foreground">{summary}</p>
-                                            ))}
-                                        </div>
-                                    </Card>
-                                </div>
-                            </div>
-                        )}
                     </div>
                 </div>
             </div>
@@ -574,13 +1366,20 @@ export function ChatInterface({
             {/* Sticky input area */}
             <div className="fixed bottom-0 left-0 right-0 pointer-events-none z-[100]">
                 <div className="max-w-4xl mx-auto w-full space-y-3 pointer-events-auto px-6 py-4">
-                    {/* Usage counters hidden to avoid a visible lower bar */}
                     {attachedFiles.length > 0 && (
                         <div className="flex flex-wrap justify-center gap-2">
                             {attachedFiles.map((file, index) => (
                                 <div key={index}
-                                     className="flex items-center gap-2 rounded-full border border-primary/30 bg-primary/10 px-3 py-1.5 backdrop-blur">
-                                    {file.type.startsWith('image/') ? (
+                                     title={isFileSupported(file) ? undefined : `${modelInfo?.label ?? model} cannot read this file type`}
+                                     className={cn(
+                                         "flex items-center gap-2 rounded-full border px-3 py-1.5 backdrop-blur",
+                                         isFileSupported(file)
+                                             ? "border-primary/30 bg-primary/10"
+                                             : "border-destructive/40 bg-destructive/10"
+                                     )}>
+                                    {!isFileSupported(file) ? (
+                                        <AlertTriangle className="h-4 w-4 text-destructive"/>
+                                    ) : file.type.startsWith('image/') ? (
                                         <ImageIcon className="h-4 w-4 text-primary"/>
                                     ) : (
                                         <FileText className="h-4 w-4 text-primary"/>
@@ -600,7 +1399,24 @@ export function ChatInterface({
                             ))}
                         </div>
                     )}
+                    {editIndex >= 0 && (
+                        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                            <Pencil className="h-3 w-3"/>
+                            <span>Editing a message. Sending it starts a new branch.</span>
+                            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleCancelEdit}>
+                                Cancel
+                            </Button>
+                        </div>
+                    )}
                     <div className="relative">
+                        {commandMenu.open && (
+                            <div className="absolute bottom-full left-0 right-0 mb-2">
+                                <CommandMenu suggestions={commandMenu.suggestions}
+                                             active={commandMenu.active}
+                                             onActiveChange={commandMenu.setHighlighted}
+                                             onSelect={commandMenu.insert}/>
+                            </div>
+                        )}
                         <input
                             ref={fileInputRef}
                             type="file"
@@ -621,9 +1437,12 @@ export function ChatInterface({
                                 <Paperclip className="h-5 w-5"/>
                             </Button>
                             <Textarea
+                                ref={textareaRef}
                                 value={input}
                                 onChange={(e) => setInput(e.target.value)}
+                                onSelect={(e) => commandMenu.trackCaret(e.currentTarget)}
                                 onKeyDown={(e) => {
+                                    if (commandMenu.handleKeyDown(e)) return;
                                     if (e.key === "Enter" && !e.shiftKey) {
                                         e.preventDefault();
                                         handleSend();
@@ -631,7 +1450,7 @@ export function ChatInterface({
                                 }}
                                 placeholder="Ask anything..."
                                 className="min-h-[36px] max-h-[180px] flex-1 resize-none border-0 bg-transparent px-0 py-1 text-base shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
-                                disabled={isStreaming}
+                                disabled={isStreaming || isCompacting || isRunningCommand}
                             />
                             {isStreaming ? (
                                 <Button
@@ -644,16 +1463,32 @@ export function ChatInterface({
                                 </Button>
                             ) : (
                                 <Button
-                                    onClick={handleSend}
+                                    onClick={() => handleSend()}
                                     size="icon"
                                     className="h-10 w-10 shrink-0 rounded-full bg-gradient-primary text-primary-foreground shadow-glow transition-smooth hover:opacity-90"
-                                    disabled={!input.trim() && attachedFiles.length === 0}
+                                    disabled={isCompacting || isRunningCommand || commandErrors.length > 0 || (!input.trim() && attachedFiles.length === 0)}
                                 >
-                                    <Send className="h-5 w-5"/>
+                                    {isRunningCommand ? <Loader2 className="h-5 w-5 animate-spin"/> : <Send className="h-5 w-5"/>}
                                 </Button>
                             )}
                         </div>
                     </div>
+                    {commandErrors.length > 0 && (
+                        <div className="space-y-0.5 text-center text-xs text-destructive">
+                            {commandErrors.map((error) => <p key={error}>{error}</p>)}
+                        </div>
+                    )}
+                    {tokenCount !== null && turnModelInfo && (
+                        <TokenMeter count={tokenCount} contextWindow={turnModelInfo.contextWindow}/>
+                    )}
+                    <MacroVariablesDialog
+                        macro={pendingMacro}
+                        onCancel={() => setPendingMacro(null)}
+                        onSubmit={(values) => {
+                            setPendingMacro(null);
+                            void handleSend(false, values);
+                        }}
+                    />
                 </div>
             </div>
         </div>
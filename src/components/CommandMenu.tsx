@@ -0,0 +1,53 @@
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { formatCommandUsage } from "@/lib/commands";
+import type { CommandSuggestion } from "@/hooks/use-command-menu";
+
+interface CommandMenuProps {
+  suggestions: CommandSuggestion[];
+  /** Trigger of the highlighted command */
+  active: string | null;
+  onActiveChange: (trigger: string) => void;
+  onSelect: (trigger: string) => void;
+}
+
+/** Slash-command suggestions shown above the composer; the textarea keeps focus and drives the keys. */
+export function CommandMenu({ suggestions, active, onActiveChange, onSelect }: CommandMenuProps) {
+  return (
+    <Command
+      shouldFilter={false}
+      value={active ?? ""}
+      onValueChange={onActiveChange}
+      // Clicking an item must not take focus away from the textarea
+      onMouseDown={(event) => event.preventDefault()}
+      className="h-auto rounded-xl border border-border shadow-lg"
+    >
+      <CommandList className="max-h-[260px]">
+        <CommandGroup heading="Commands">
+          {suggestions.map(({ trigger, command }) => {
+            const hints = (command.args ?? []).filter((argument) => argument.description);
+            return (
+              <CommandItem
+                key={trigger}
+                value={trigger}
+                onSelect={() => onSelect(trigger)}
+                className="flex-col items-start gap-0.5 py-2"
+              >
+                <div className="flex w-full items-baseline gap-3">
+                  <span className="font-mono text-sm">{formatCommandUsage(trigger, command)}</span>
+                  <span className="truncate text-xs text-muted-foreground">{command.description}</span>
+                </div>
+                {(hints.length > 0 || command.examples?.length) && (
+                  <div className="text-[11px] text-muted-foreground">
+                    {hints.map((argument) => `${argument.name}: ${argument.description}`).join(" · ")}
+                    {hints.length > 0 && command.examples?.length ? " · " : ""}
+                    {command.examples?.length ? <>e.g. <code>{command.examples[0]}</code></> : null}
+                  </div>
+                )}
+              </CommandItem>
+            );
+          })}
+        </CommandGroup>
+      </CommandList>
+    </Command>
+  );
+}
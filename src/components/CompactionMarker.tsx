@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { ChevronDown, Layers } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { getModelLabel } from "@/lib/models";
+import type { ContextSummary } from "@/lib/context";
+
+interface CompactionMarkerProps {
+  summary: ContextSummary;
+}
+
+/** Divider placed after the last message a summary covers; expands to show the summary. */
+export function CompactionMarker({ summary }: CompactionMarkerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="my-2 space-y-2">
+      <div className="flex items-center gap-3">
+        <div className="h-px flex-1 bg-border" />
+        <CollapsibleTrigger className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground">
+          <Layers className="h-3.5 w-3.5" />
+          <span>Earlier messages compacted</span>
+          <ChevronDown className={cn("h-3.5 w-3.5 transition-transform", open && "rotate-180")} />
+        </CollapsibleTrigger>
+        <div className="h-px flex-1 bg-border" />
+      </div>
+      <CollapsibleContent className="rounded-lg border border-border bg-muted/30 px-4 py-3">
+        <p className="whitespace-pre-wrap text-sm text-muted-foreground">{summary.content}</p>
+        <p className="mt-2 text-[11px] text-muted-foreground">Summarized by {getModelLabel(summary.model)}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
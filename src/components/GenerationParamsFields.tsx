@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_CANDIDATES,
+  MAX_STOP_SEQUENCES,
+  type GenerationParamErrors,
+  type GenerationParams,
+} from "@/lib/generation";
+import type { ModelInfo } from "@/lib/models";
+
+interface GenerationParamsFieldsProps {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  errors: GenerationParamErrors;
+  modelInfo?: ModelInfo;
+}
+
+type NumericParam = Exclude<keyof GenerationParams, "stopSequences">;
+
+const parseStopSequences = (text: string) => text.split("\n").filter((line) => line.length > 0);
+
+export function GenerationParamsFields({ params, onChange, errors, modelInfo }: GenerationParamsFieldsProps) {
+  const savedStopText = (params.stopSequences ?? []).join("\n");
+  const [stopText, setStopText] = useState(savedStopText);
+
+  // Keep the half-typed text unless the params changed underneath it (e.g. a session was loaded)
+  useEffect(() => {
+    setStopText((previous) =>
+      parseStopSequences(previous).join("\n") === savedStopText ? previous : savedStopText
+    );
+  }, [savedStopText]);
+
+  const setNumber = (key: NumericParam, value: string) => {
+    onChange({ ...params, [key]: value.trim() === "" ? undefined : Number(value) });
+  };
+
+  const numberField = (key: NumericParam, label: string, placeholder: string, step: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`param-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`param-${key}`}
+        type="number"
+        inputMode="decimal"
+        step={step}
+        placeholder={placeholder}
+        value={params[key] ?? ""}
+        onChange={(e) => setNumber(key, e.target.value)}
+        className="h-8"
+        aria-invalid={errors[key] !== undefined}
+      />
+      {errors[key] && <p className="text-xs text-destructive">{errors[key]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {numberField("topP", "Top P", "Default", "0.05")}
+        {numberField("topK", "Top K", modelInfo ? `1 – ${modelInfo.maxTopK}` : "Default", "1")}
+        {numberField(
+          "maxOutputTokens",
+          "Max output tokens",
+          modelInfo ? `Up to ${modelInfo.maxOutputTokens.toLocaleString()}` : "Default",
+          "1"
+        )}
+        {numberField("seed", "Seed", "Random", "1")}
+        {numberField("candidateCount", "Candidates", `1 – ${MAX_CANDIDATES}`, "1")}
+        {numberField("presencePenalty", "Presence penalty", modelInfo?.supportsPenalties ? "0" : "Unsupported", "0.1")}
+        {numberField("frequencyPenalty", "Frequency penalty", modelInfo?.supportsPenalties ? "0" : "Unsupported", "0.1")}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="param-stopSequences" className="text-xs">Stop sequences</Label>
+        <Textarea
+          id="param-stopSequences"
+          placeholder={`One per line, up to ${MAX_STOP_SEQUENCES}`}
+          value={stopText}
+          onChange={(e) => {
+            setStopText(e.target.value);
+            const sequences = parseStopSequences(e.target.value);
+            onChange({ ...params, stopSequences: sequences.length > 0 ? sequences : undefined });
+          }}
+          className="min-h-[60px] resize-none font-mono text-xs"
+        />
+        {errors.stopSequences && <p className="text-xs text-destructive">{errors.stopSequences}</p>}
+      </div>
+    </div>
+  );
+}
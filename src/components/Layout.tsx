@@ -3,31 +3,36 @@ import { SidebarProvider, useSidebar } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { TopBar } from "@/components/TopBar";
 import { SafetySettings } from "@/lib/gemini";
+import { DEFAULT_MODEL_ID, getModelInfo, type ThinkingBudgetRange } from "@/lib/models";
+import type { JsonSchema } from "@/lib/jsonSchema";
+import { validateGenerationParams, type GenerationParams } from "@/lib/generation";
+import { DEFAULT_CONTEXT_SETTINGS, type ContextSettings, type ContextStrategy } from "@/lib/context";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
 
-type ThinkingBudgetRange = {
-  min: number;
-  max: number;
-};
+const DEFAULT_MODEL = DEFAULT_MODEL_ID;
 
-const DEFAULT_MODEL = "gemini-2.5-flash";
-const DEFAULT_THINKING_BUDGET_RANGE: ThinkingBudgetRange = { min: 0, max: 10000 };
-const GOOGLE_THINKING_BUDGET_RANGE: ThinkingBudgetRange = { min: 128, max: 32768 };
-
-const getThinkingBudgetRange = (model: string): ThinkingBudgetRange =>
-  model.toLowerCase().includes("gemini")
-    ? GOOGLE_THINKING_BUDGET_RANGE
-    : DEFAULT_THINKING_BUDGET_RANGE;
+const getThinkingBudgetRange = (model: string): ThinkingBudgetRange | null =>
+  getModelInfo(model)?.thinking ?? null;
 
 interface LayoutProps {
   children: (props: {
     model: string;
     temperature: number;
+    generationParams: GenerationParams;
     jsonMode: boolean;
     useWebSearch: boolean;
+    useCodeExecution: boolean;
     systemInstruction: string;
     urlContext: string;
-    thinkingBudget: number;
+    thinkingBudget?: number;
     safetySettings: SafetySettings;
+    enabledTools: string[];
+    fallbackModels: string[];
+    responseSchema: JsonSchema | null;
+    contextSettings: ContextSettings;
+    onContextSettingsChange: (settings: ContextSettings) => void;
     sessionId: string | null;
     onSessionCreated: (sessionId: string) => void;
     onNewSession: () => void;
@@ -37,13 +42,15 @@ interface LayoutProps {
 export function Layout({ children }: LayoutProps) {
   const [model, setModel] = useState(DEFAULT_MODEL);
   const [temperature, setTemperature] = useState(1);
+  const [generationParams, setGenerationParams] = useState<GenerationParams>({});
   const [jsonMode, setJsonMode] = useState(false);
   const [useWebSearch, setUseWebSearch] = useState(false);
+  const [useCodeExecution, setUseCodeExecution] = useState(false);
   const [systemInstruction, setSystemInstruction] = useState("");
   const [urlContext, setUrlContext] = useState("");
   const [thinkingBudgetEnabled, setThinkingBudgetEnabled] = useState(false);
   const [thinkingBudget, setThinkingBudget] = useState(
-    () => getThinkingBudgetRange(DEFAULT_MODEL).max
+    () => getThinkingBudgetRange(DEFAULT_MODEL)?.max ?? 0
   );
   const [safetySettings, setSafetySettings] = useState<SafetySettings>({
     harassment: "BLOCK_NONE",
@@ -51,10 +58,16 @@ export function Layout({ children }: LayoutProps) {
     sexuallyExplicit: "BLOCK_NONE",
     dangerousContent: "BLOCK_NONE"
   });
+  const [enabledTools, setEnabledTools] = useState<string[]>([]);
+  const [fallbackModels, setFallbackModels] = useState<string[]>([]);
+  const [responseSchema, setResponseSchema] = useState<JsonSchema | null>(null);
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(DEFAULT_CONTEXT_SETTINGS);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [sessionKey, setSessionKey] = useState(0);
 
+  const modelInfo = getModelInfo(model);
   const currentThinkingBudgetRange = getThinkingBudgetRange(model);
+  const generationParamErrors = modelInfo ? validateGenerationParams(modelInfo, generationParams) : {};
 
   // Set dark theme by default
   useEffect(() => {
@@ -62,7 +75,11 @@ export function Layout({ children }: LayoutProps) {
   }, []);
 
   useEffect(() => {
-    const { min, max } = getThinkingBudgetRange(model);
+    const range = getThinkingBudgetRange(model);
+    if (!range) {
+      return;
+    }
+    const { min, max } = range;
     setThinkingBudget((previous) => {
       if (!thinkingBudgetEnabled) {
         return max;
@@ -86,14 +103,73 @@ export function Layout({ children }: LayoutProps) {
     setSessionId(newSessionId);
   };
 
+  // Sampling, structured output, tool and fallback settings belong to the session, so restore them on switch
+  const loadSessionSettings = async (id: string) => {
+    const { data, error } = await supabase
+      .from("sessions")
+      .select("temperature, generation_params, json_mode, response_schema, context_strategy, context_turns, enabled_tools, fallback_models")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      console.error("Error loading session settings:", error);
+      return;
+    }
+    setTemperature(data.temperature);
+    setGenerationParams((data.generation_params as GenerationParams | null) ?? {});
+    setJsonMode(data.json_mode);
+    setResponseSchema((data.response_schema as unknown as JsonSchema | null) ?? null);
+    setContextSettings({ strategy: data.context_strategy as ContextStrategy, turns: data.context_turns });
+    setEnabledTools(data.enabled_tools);
+    setFallbackModels(data.fallback_models);
+  };
+
   const handleSessionSelect = (selectedSessionId: string) => {
     setSessionId(selectedSessionId);
     setSessionKey(prev => prev + 1);
+    void loadSessionSettings(selectedSessionId);
+  };
+
+  const handleResponseSchemaChange = async (schema: JsonSchema | null) => {
+    setResponseSchema(schema);
+    // Sessions created later pick the schema up on insert
+    if (!sessionId) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("sessions")
+      .update({ response_schema: schema as unknown as Json })
+      .eq("id", sessionId);
+
+    if (error) {
+      console.error("Error saving response schema:", error);
+      toast.error("Failed to save schema to this session");
+    }
+  };
+
+  const handleContextSettingsChange = async (settings: ContextSettings) => {
+    setContextSettings(settings);
+    if (!sessionId) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("sessions")
+      .update({ context_strategy: settings.strategy, context_turns: settings.turns })
+      .eq("id", sessionId);
+
+    if (error) {
+      console.error("Error saving context settings:", error);
+      toast.error("Failed to save context settings to this session");
+    }
   };
 
-  const effectiveThinkingBudget = thinkingBudgetEnabled
-    ? thinkingBudget
-    : currentThinkingBudgetRange.max;
+  const effectiveThinkingBudget = !currentThinkingBudgetRange
+    ? undefined
+    : thinkingBudgetEnabled
+      ? thinkingBudget
+      : currentThinkingBudgetRange.max;
 
   return (
     <SidebarProvider defaultOpen={true}>
@@ -109,10 +185,15 @@ export function Layout({ children }: LayoutProps) {
           setModel={setModel} 
           temperature={temperature}
           setTemperature={setTemperature}
+          generationParams={generationParams}
+          setGenerationParams={setGenerationParams}
+          generationParamErrors={generationParamErrors}
           jsonMode={jsonMode}
           setJsonMode={setJsonMode}
           useWebSearch={useWebSearch}
           setUseWebSearch={setUseWebSearch}
+          useCodeExecution={useCodeExecution}
+          setUseCodeExecution={setUseCodeExecution}
           systemInstruction={systemInstruction}
           setSystemInstruction={setSystemInstruction}
           urlContext={urlContext}
@@ -124,17 +205,32 @@ export function Layout({ children }: LayoutProps) {
           thinkingBudgetRange={currentThinkingBudgetRange}
           safetySettings={safetySettings}
           setSafetySettings={setSafetySettings}
+          enabledTools={enabledTools}
+          setEnabledTools={setEnabledTools}
+          fallbackModels={fallbackModels}
+          setFallbackModels={setFallbackModels}
+          responseSchema={responseSchema}
+          setResponseSchema={handleResponseSchemaChange}
+          contextSettings={contextSettings}
+          setContextSettings={handleContextSettingsChange}
         />
           <main className="flex-1 min-h-0" key={sessionKey}>
         {children({ 
           model, 
           temperature, 
-          jsonMode,
-          useWebSearch,
+          generationParams,
+          jsonMode: jsonMode && (modelInfo?.supportsJsonMode ?? false),
+          useWebSearch: useWebSearch && (modelInfo?.supportsSearch ?? false),
+          useCodeExecution: useCodeExecution && (modelInfo?.supportsCodeExecution ?? false),
           systemInstruction,
           urlContext,
           thinkingBudget: effectiveThinkingBudget,
           safetySettings,
+          enabledTools: modelInfo?.supportsTools ? enabledTools : [],
+          fallbackModels: fallbackModels.filter((id) => id !== model),
+          responseSchema,
+          contextSettings,
+          onContextSettingsChange: handleContextSettingsChange,
           sessionId,
           onSessionCreated: handleSessionCreated,
           onNewSession: handleNewSession 
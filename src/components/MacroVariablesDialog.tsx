@@ -0,0 +1,81 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface PendingMacro {
+  name: string;
+  /** Variables the prompt did not give, in template order */
+  missing: string[];
+  /** Variables given inline */
+  values: Record<string, string>;
+}
+
+interface MacroVariablesDialogProps {
+  macro: PendingMacro | null;
+  onSubmit: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+/** Asks for the {{variables}} a macro still needs before its prompt can be sent. */
+export function MacroVariablesDialog({ macro, onSubmit, onCancel }: MacroVariablesDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [macro]);
+
+  const isComplete = macro?.missing.every((name) => values[name]?.trim()) ?? false;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!macro || !isComplete) return;
+    onSubmit({ ...macro.values, ...values });
+  };
+
+  return (
+    <Dialog open={macro !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>/{macro?.name}</DialogTitle>
+            <DialogDescription>Fill in the rest of the macro before it is sent.</DialogDescription>
+          </DialogHeader>
+
+          {macro?.missing.map((name, index) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`macro-variable-${name}`} className="font-mono text-xs">{name}</Label>
+              <Textarea
+                id={`macro-variable-${name}`}
+                autoFocus={index === 0}
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((previous) => ({ ...previous, [name]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSubmit(e);
+                }}
+                className="min-h-[60px]"
+              />
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={!isComplete}>
+              Send
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
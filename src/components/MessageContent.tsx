@@ -1,6 +1,20 @@
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Copy, Check, FileText } from "lucide-react";
+import {
+  Copy,
+  Check,
+  FileText,
+  ChevronDown,
+  Brain,
+  AlertTriangle,
+  Globe,
+  Search,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  Terminal,
+  Link2,
+} from "lucide-react";
 import {
   memo,
   type ReactNode,
@@ -11,11 +25,38 @@ import {
   type CSSProperties,
 } from "react";
 import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { describeFinishReason, describeMessageStatus, type Attachment } from "@/lib/gemini";
+import type {
+  CodeExecutionOutcome,
+  CodeExecutionStep,
+  GroundingMetadata,
+  MessageStatus,
+  ToolCallStep,
+} from "@/lib/events";
+import { applyCitations, CITATION_HREF_PREFIX, getSourceDomain } from "@/lib/grounding";
+import type { SchemaValidation } from "@/lib/jsonSchema";
+import { ToolCallSteps } from "@/components/ToolCallSteps";
 import type { Components } from "react-markdown";
 
 interface MessageContentProps {
   content: string;
-  attachments?: string[];
+  attachments?: Attachment[];
+  urls?: string[];
+  thoughts?: string;
+  isThinking?: boolean;
+  finishReason?: string;
+  grounding?: GroundingMetadata;
+  toolCalls?: ToolCallStep[];
+  codeExecutions?: CodeExecutionStep[];
+  schemaValidation?: SchemaValidation;
+  status?: MessageStatus;
+  error?: string;
 }
 
 type SyntaxHighlighterComponentProps = {
@@ -49,7 +90,24 @@ function loadSyntaxResources(): Promise<SyntaxResources> {
   return syntaxResourcesPromise;
 }
 
-const MessageContentComponent = ({ content, attachments }: MessageContentProps) => {
+const MessageContentComponent = ({
+  content,
+  attachments,
+  urls,
+  thoughts,
+  isThinking = false,
+  finishReason,
+  grounding,
+  toolCalls,
+  codeExecutions,
+  schemaValidation,
+  status,
+  error,
+}: MessageContentProps) => {
+  const finishNotice = describeFinishReason(finishReason);
+  const statusNotice = describeMessageStatus(status, error);
+  const citedContent = useMemo(() => applyCitations(content, grounding), [content, grounding]);
+
   const components = useMemo<Components>(
     () => ({
       code({ className, children, ...props }) {
@@ -68,8 +126,34 @@ const MessageContentComponent = ({ content, attachments }: MessageContentProps)
           </code>
         );
       },
+      a({ href, children, ...props }) {
+        if (href?.startsWith(CITATION_HREF_PREFIX)) {
+          const chunkIndex = Number(href.slice(CITATION_HREF_PREFIX.length));
+          const chunk = grounding?.chunks[chunkIndex];
+
+          return (
+            <sup className="mx-0.5">
+              <a
+                href={chunk?.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={chunk ? chunk.title : undefined}
+                className="no-underline rounded bg-primary/15 px-1 text-[0.7rem] font-medium text-primary hover:bg-primary/25"
+              >
+                {children}
+              </a>
+            </sup>
+          );
+        }
+
+        return (
+          <a href={href} {...props}>
+            {children}
+          </a>
+        );
+      },
     }),
-    []
+    [grounding]
   );
 
   const attachmentsContent = useMemo(() => {
@@ -79,27 +163,25 @@ const MessageContentComponent = ({ content, attachments }: MessageContentProps)
 
     return (
       <div className="flex flex-wrap gap-2">
-        {attachments.map((url, index) => {
-          const isImage =
-            /^data:image\//i.test(url) || /\.(jpg|jpeg|png|gif|webp)$/i.test(url);
+        {attachments.map((attachment, index) => {
+          const isImage = attachment.mimeType.startsWith("image/");
 
           return isImage ? (
             <img
               key={index}
-              src={url}
-              alt={`Attachment ${index + 1}`}
+              src={attachment.previewUrl}
+              alt={attachment.name}
               className="max-w-xs rounded-lg border"
             />
           ) : (
             <a
               key={index}
-              href={url}
-              target="_blank"
-              rel="noopener noreferrer"
+              href={attachment.previewUrl}
+              download={attachment.name}
               className="flex items-center gap-2 px-3 py-2 bg-muted rounded-lg border hover:bg-muted/80 transition-colors"
             >
               <FileText className="h-4 w-4" />
-              <span className="text-sm">Attachment {index + 1}</span>
+              <span className="text-sm">{attachment.name}</span>
             </a>
           );
         })}
@@ -110,15 +192,254 @@ const MessageContentComponent = ({ content, attachments }: MessageContentProps)
   return (
     <div className="space-y-3">
       {attachmentsContent}
-      <div className="prose prose-sm dark:prose-invert max-w-none">
-        <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
-          {content}
-        </ReactMarkdown>
+      {urls && urls.length > 0 && <UrlChips urls={urls} />}
+      {thoughts && <ThoughtsSection thoughts={thoughts} isThinking={isThinking} />}
+      {toolCalls && toolCalls.length > 0 && <ToolCallSteps steps={toolCalls} />}
+      {codeExecutions && codeExecutions.length > 0 ? (
+        // Citation offsets refer to the whole answer, so interleaved answers go without markers
+        splitAtCodeExecutions(content, codeExecutions).map((segment, index) => (
+          <div key={index} className="space-y-3">
+            {segment.text && (
+              <div className="prose prose-sm dark:prose-invert max-w-none">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+                  {segment.text}
+                </ReactMarkdown>
+              </div>
+            )}
+            {segment.step && <CodeExecutionBlock step={segment.step} />}
+          </div>
+        ))
+      ) : content && (
+        <div className="prose prose-sm dark:prose-invert max-w-none">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={components}>
+            {citedContent}
+          </ReactMarkdown>
+        </div>
+      )}
+      {grounding && grounding.chunks.length > 0 && <SourcesStrip grounding={grounding} />}
+      {schemaValidation && <SchemaValidationBadge validation={schemaValidation} />}
+      {finishNotice && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>{finishNotice}</span>
+        </div>
+      )}
+      {statusNotice && (
+        <div
+          className={cn(
+            "flex items-center gap-2 rounded-lg border px-3 py-2 text-xs",
+            status === "streaming"
+              ? "border-border bg-muted/30 text-muted-foreground"
+              : "border-destructive/30 bg-destructive/10 text-destructive"
+          )}
+        >
+          {status === "streaming" ? (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+          )}
+          <span>{statusNotice}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Splits the answer at the points where code ran, pairing each text run with the code after it. */
+function splitAtCodeExecutions(content: string, steps: CodeExecutionStep[]) {
+  let start = 0;
+  const segments: { text: string; step?: CodeExecutionStep }[] = steps.map((step) => {
+    const end = Math.min(Math.max(step.offset, start), content.length);
+    const text = content.slice(start, end);
+    start = end;
+    return { text, step };
+  });
+  segments.push({ text: content.slice(start) });
+  return segments;
+}
+
+const OUTCOME_LABELS: Record<CodeExecutionOutcome, string> = {
+  OUTCOME_OK: "Exited successfully",
+  OUTCOME_FAILED: "Failed",
+  OUTCOME_DEADLINE_EXCEEDED: "Timed out",
+  OUTCOME_UNSPECIFIED: "Unknown status",
+};
+
+type CodeExecutionBlockProps = {
+  step: CodeExecutionStep;
+};
+
+function CodeExecutionBlock({ step }: CodeExecutionBlockProps) {
+  const isRunning = step.outcome === undefined;
+  const succeeded = step.outcome === "OUTCOME_OK";
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border bg-muted/30 px-3 py-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <Terminal className="h-3.5 w-3.5" />
+        <span>Code</span>
       </div>
+      <CodeBlock code={step.code} language={step.language} />
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <span>Output</span>
+        <span
+          className={cn(
+            "ml-auto flex items-center gap-1",
+            !isRunning && (succeeded ? "text-emerald-500" : "text-destructive")
+          )}
+        >
+          {isRunning ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : succeeded ? (
+            <CheckCircle2 className="h-3.5 w-3.5" />
+          ) : (
+            <XCircle className="h-3.5 w-3.5" />
+          )}
+          {isRunning ? "Running..." : OUTCOME_LABELS[step.outcome ?? "OUTCOME_UNSPECIFIED"]}
+        </span>
+      </div>
+      {!isRunning && (
+        <pre
+          className={cn(
+            "max-h-64 overflow-auto rounded bg-background/60 p-2 font-mono text-xs",
+            !succeeded && "text-destructive"
+          )}
+        >
+          {step.output || "(no output)"}
+        </pre>
+      )}
     </div>
   );
+}
+
+type UrlChipsProps = {
+  urls: string[];
+};
+
+// Pages whose content was sent along with a user turn
+function UrlChips({ urls }: UrlChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {urls.map((url) => (
+        <a
+          key={url}
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={url}
+          className="flex max-w-[220px] items-center gap-1.5 rounded-full border border-current/30 px-2.5 py-0.5 text-xs opacity-80 hover:opacity-100"
+        >
+          <Link2 className="h-3 w-3 shrink-0" />
+          <span className="truncate">{new URL(url).hostname}</span>
+        </a>
+      ))}
+    </div>
+  );
+}
+
+type SourcesStripProps = {
+  grounding: GroundingMetadata;
+};
+
+function SourcesStrip({ grounding }: SourcesStripProps) {
+  return (
+    <div className="space-y-2 border-t border-border pt-3">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <Globe className="h-3.5 w-3.5" />
+        <span>Sources</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {grounding.chunks.map((chunk, index) => (
+          <a
+            key={index}
+            href={chunk.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex max-w-[220px] items-center gap-2 rounded-lg border bg-muted/50 px-3 py-1.5 transition-colors hover:bg-muted"
+          >
+            <span className="text-[0.7rem] font-medium text-primary">{index + 1}</span>
+            <div className="min-w-0">
+              <p className="truncate text-xs font-medium">{chunk.title || getSourceDomain(chunk)}</p>
+              <p className="truncate text-[0.7rem] text-muted-foreground">{getSourceDomain(chunk)}</p>
+            </div>
+          </a>
+        ))}
+      </div>
+      {grounding.searchQueries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-[0.7rem] text-muted-foreground">
+          <Search className="h-3 w-3" />
+          {grounding.searchQueries.map((query, index) => (
+            <span key={index} className="rounded-full border px-2 py-0.5">
+              {query}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type SchemaValidationBadgeProps = {
+  validation: SchemaValidation;
+};
+
+function SchemaValidationBadge({ validation }: SchemaValidationBadgeProps) {
+  if (validation.valid) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-emerald-500">
+        <CheckCircle2 className="h-3.5 w-3.5" />
+        <span>Matches schema</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1.5 rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+      <div className="flex items-center gap-1.5 font-medium">
+        <XCircle className="h-3.5 w-3.5" />
+        <span>Does not match schema</span>
+      </div>
+      <ul className="space-y-0.5">
+        {validation.issues.map((issue, index) => (
+          <li key={index}>
+            <code className="rounded bg-destructive/10 px-1">{issue.path}</code> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type ThoughtsSectionProps = {
+  thoughts: string;
+  isThinking: boolean;
 };
 
+function ThoughtsSection({ thoughts, isThinking }: ThoughtsSectionProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="rounded-lg border border-primary/20 bg-primary/5"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-sm font-medium text-primary">
+        <Brain className={cn("h-4 w-4", isThinking && "animate-pulse")} />
+        <span>{isThinking ? "Thinking..." : "Thoughts"}</span>
+        <ChevronDown
+          className={cn("ml-auto h-4 w-4 transition-transform", open && "rotate-180")}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3">
+        <div className="prose prose-sm dark:prose-invert max-w-none text-muted-foreground">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{thoughts}</ReactMarkdown>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
 MessageContentComponent.displayName = "MessageContentComponent";
 
 export const MessageContent = memo(MessageContentComponent);
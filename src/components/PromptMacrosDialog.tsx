@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MACRO_NAME_PATTERN,
+  findTemplateVariables,
+  isBuiltInCommandName,
+  loadPromptMacros,
+  registerPromptMacros,
+  type MacroSettings,
+  type PromptMacro,
+} from "@/lib/macros";
+import { MODELS, getModelLabel } from "@/lib/models";
+
+interface PromptMacrosDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface MacroDraft {
+  id?: string;
+  name: string;
+  description: string;
+  template: string;
+  model: string;
+  temperature: string;
+  systemInstruction: string;
+}
+
+// Select items cannot have an empty value, so "keep the chat's model" gets its own
+const CHAT_DEFAULT_MODEL = "chat-default";
+
+const EMPTY_DRAFT: MacroDraft = {
+  name: "",
+  description: "",
+  template: "",
+  model: CHAT_DEFAULT_MODEL,
+  temperature: "",
+  systemInstruction: "",
+};
+
+const toDraft = (macro: PromptMacro): MacroDraft => ({
+  id: macro.id,
+  name: macro.name,
+  description: macro.description ?? "",
+  template: macro.template,
+  model: macro.settings.model ?? CHAT_DEFAULT_MODEL,
+  temperature: macro.settings.temperature?.toString() ?? "",
+  systemInstruction: macro.settings.systemInstruction ?? "",
+});
+
+function validateDraft(draft: MacroDraft, macros: PromptMacro[]): Partial<Record<"name" | "template" | "temperature", string>> {
+  const errors: Partial<Record<"name" | "template" | "temperature", string>> = {};
+  if (!MACRO_NAME_PATTERN.test(draft.name)) {
+    errors.name = "Start with a lowercase letter; use up to 32 letters, digits, - or _";
+  } else if (isBuiltInCommandName(draft.name)) {
+    errors.name = `/${draft.name} is a built-in command`;
+  } else if (macros.some((macro) => macro.name === draft.name && macro.id !== draft.id)) {
+    errors.name = `You already have a /${draft.name} macro`;
+  }
+  if (!draft.template.trim()) {
+    errors.template = "The template cannot be empty";
+  }
+  const temperature = Number(draft.temperature);
+  if (draft.temperature.trim() !== "" && !(Number.isFinite(temperature) && temperature >= 0 && temperature <= 2)) {
+    errors.temperature = "Use a number between 0 and 2";
+  }
+  return errors;
+}
+
+const toSettings = (draft: MacroDraft): MacroSettings => ({
+  ...(draft.model !== CHAT_DEFAULT_MODEL && { model: draft.model }),
+  ...(draft.temperature.trim() !== "" && { temperature: Number(draft.temperature) }),
+  ...(draft.systemInstruction.trim() && { systemInstruction: draft.systemInstruction.trim() }),
+});
+
+/** Lists, creates, edits and deletes the user's prompt macros, re-registering them after each change. */
+export function PromptMacrosDialog({ open, onOpenChange }: PromptMacrosDialogProps) {
+  const [macros, setMacros] = useState<PromptMacro[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<MacroDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    try {
+      const loaded = await loadPromptMacros();
+      setMacros(loaded);
+      registerPromptMacros(loaded);
+    } catch (error) {
+      console.error("Error loading prompt macros:", error);
+      toast({ title: "Error", description: "Failed to load prompt macros", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(null);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  const errors = draft ? validateDraft(draft, macros) : {};
+  const variables = draft ? findTemplateVariables(draft.template) : [];
+
+  const handleSave = async () => {
+    if (!draft || Object.keys(errors).length > 0) return;
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const row = {
+        name: draft.name,
+        description: draft.description.trim() || null,
+        template: draft.template,
+        settings: { ...toSettings(draft) },
+      };
+      const { error } = draft.id
+        ? await supabase.from("prompt_macros").update(row).eq("id", draft.id)
+        : await supabase.from("prompt_macros").insert({ ...row, user_id: user.id });
+      if (error) throw error;
+
+      setDraft(null);
+      await refresh();
+    } catch (error) {
+      console.error("Error saving prompt macro:", error);
+      toast({ title: "Error", description: "Failed to save the macro", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (macro: PromptMacro) => {
+    try {
+      const { error } = await supabase.from("prompt_macros").delete().eq("id", macro.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error("Error deleting prompt macro:", error);
+      toast({ title: "Error", description: "Failed to delete the macro", variant: "destructive" });
+    }
+  };
+
+  const update = (changes: Partial<MacroDraft>) => setDraft((previous) => (previous ? { ...previous, ...changes } : previous));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{draft ? (draft.id ? `Edit /${draft.name}` : "New macro") : "Prompt Macros"}</DialogTitle>
+          <DialogDescription>
+            Type /name in the chat to use a macro. Its {"{{variables}}"} can be given as name=value or filled in when sending.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="macro-name" className="text-xs">Name</Label>
+              <div className="flex items-center gap-1">
+                <span className="font-mono text-sm text-muted-foreground">/</span>
+                <Input
+                  id="macro-name"
+                  value={draft.name}
+                  onChange={(e) => update({ name: e.target.value.toLowerCase() })}
+                  placeholder="review"
+                  className="h-8 font-mono"
+                  aria-invalid={errors.name !== undefined}
+                />
+              </div>
+              {errors.name && draft.name && <p className="text-xs text-destructive">{errors.name}</p>}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="macro-description" className="text-xs">Description</Label>
+              <Input
+                id="macro-description"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="Shown in the command menu"
+                className="h-8"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="macro-template" className="text-xs">Template</Label>
+              <Textarea
+                id="macro-template"
+                value={draft.template}
+                onChange={(e) => update({ template: e.target.value })}
+                placeholder={"Review this {{language}} code for bugs:\n\n{{code}}"}
+                className="min-h-[120px] font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                {variables.length > 0
+                  ? `Variables: ${variables.join(", ")}`
+                  : "Add {{variables}} for the parts that change between uses"}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Model</Label>
+                <Select value={draft.model} onValueChange={(model) => update({ model })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CHAT_DEFAULT_MODEL}>Chat default</SelectItem>
+                    {MODELS.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="macro-temperature" className="text-xs">Temperature</Label>
+                <Input
+                  id="macro-temperature"
+                  type="number"
+                  inputMode="decimal"
+                  step="0.1"
+                  value={draft.temperature}
+                  onChange={(e) => update({ temperature: e.target.value })}
+                  placeholder="Chat default"
+                  className="h-8"
+                  aria-invalid={errors.temperature !== undefined}
+                />
+                {errors.temperature && <p className="text-xs text-destructive">{errors.temperature}</p>}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="macro-system" className="text-xs">System instruction</Label>
+              <Textarea
+                id="macro-system"
+                value={draft.systemInstruction}
+                onChange={(e) => update({ systemInstruction: e.target.value })}
+                placeholder="Chat default"
+                className="min-h-[60px] text-xs"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving || Object.keys(errors).length > 0}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <ScrollArea className="max-h-[320px]">
+              {isLoading ? (
+                <p className="py-4 text-sm text-muted-foreground">Loading macros...</p>
+              ) : macros.length === 0 ? (
+                <p className="py-4 text-sm text-muted-foreground">No macros yet</p>
+              ) : (
+                <ul className="space-y-1">
+                  {macros.map((macro) => (
+                    <li key={macro.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="font-mono text-sm">/{macro.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {[
+                            macro.description || macro.template,
+                            macro.settings.model && getModelLabel(macro.settings.model),
+                            macro.settings.temperature !== undefined && `temp ${macro.settings.temperature}`,
+                          ].filter(Boolean).join(" · ")}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDraft(toDraft(macro))}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(macro)}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </ScrollArea>
+            <Button size="sm" className="w-full" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+              <Plus className="h-4 w-4 mr-2" />
+              New macro
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  SCHEMA_TEMPLATES,
+  inferSchemaFromExample,
+  parseJsonSchema,
+  type JsonSchema,
+} from "@/lib/jsonSchema";
+
+interface SchemaEditorProps {
+  schema: JsonSchema | null;
+  onApply: (schema: JsonSchema | null) => void;
+}
+
+const formatSchema = (schema: JsonSchema | null) => (schema ? JSON.stringify(schema, null, 2) : "");
+
+export function SchemaEditor({ schema, onApply }: SchemaEditorProps) {
+  const [text, setText] = useState(() => formatSchema(schema));
+  const [importing, setImporting] = useState(false);
+  const [example, setExample] = useState("");
+  const [exampleError, setExampleError] = useState<string | null>(null);
+
+  // Pick up schemas restored from a saved session
+  useEffect(() => {
+    setText(formatSchema(schema));
+  }, [schema]);
+
+  const { schema: parsed, error } = parseJsonSchema(text);
+  const isDirty = text !== formatSchema(schema);
+
+  const handleImport = () => {
+    try {
+      setText(formatSchema(inferSchemaFromExample(JSON.parse(example))));
+      setExample("");
+      setExampleError(null);
+      setImporting(false);
+    } catch (importError) {
+      setExampleError(importError instanceof Error ? importError.message : "Invalid JSON");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select
+          value=""
+          onValueChange={(id) => {
+            const template = SCHEMA_TEMPLATES.find((entry) => entry.id === id);
+            if (template) setText(formatSchema(template.schema));
+          }}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue placeholder="Start from a template" />
+          </SelectTrigger>
+          <SelectContent>
+            {SCHEMA_TEMPLATES.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setImporting(!importing)}>
+          From example
+        </Button>
+      </div>
+
+      {importing && (
+        <div className="space-y-2">
+          <Textarea
+            placeholder='Paste an example response, e.g. {"title": "…", "tags": ["…"]}'
+            value={example}
+            onChange={(e) => setExample(e.target.value)}
+            className="min-h-[80px] resize-none font-mono text-xs"
+          />
+          {exampleError && <p className="text-xs text-destructive">{exampleError}</p>}
+          <Button size="sm" variant="secondary" onClick={handleImport} disabled={!example.trim()}>
+            Generate schema
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="responseSchema" className="text-xs">JSON Schema</Label>
+        <Textarea
+          id="responseSchema"
+          placeholder='{"type": "object", "properties": { … }}'
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="min-h-[160px] resize-y font-mono text-xs"
+          spellCheck={false}
+        />
+        <p className="text-xs text-muted-foreground">
+          {error
+            ? <span className="text-destructive">{error}</span>
+            : schema
+              ? "Responses are generated and validated against this schema"
+              : "Without a schema the model may return any JSON"}
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setText("");
+            onApply(null);
+          }}
+          disabled={!schema && !text}
+        >
+          Clear
+        </Button>
+        <Button size="sm" onClick={() => onApply(parsed)} disabled={!isDirty || error !== null}>
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { ChevronDown, Loader2, Wrench, XCircle } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { ToolCallStep } from "@/lib/events";
+import { TOOL_CATALOG } from "@/lib/tools";
+
+interface ToolCallStepsProps {
+  steps: ToolCallStep[];
+}
+
+export function ToolCallSteps({ steps }: ToolCallStepsProps) {
+  return (
+    <div className="space-y-2">
+      {steps.map((step) => (
+        <ToolCallStepItem key={step.callId} step={step} />
+      ))}
+    </div>
+  );
+}
+
+const formatJson = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+function ToolCallStepItem({ step }: { step: ToolCallStep }) {
+  const [open, setOpen] = useState(false);
+  const label = TOOL_CATALOG.find((tool) => tool.name === step.name)?.label ?? step.name;
+  const isPending = step.result === undefined && step.error === undefined;
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className="rounded-lg border border-border bg-muted/30"
+    >
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-sm">
+        {isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : step.error ? (
+          <XCircle className="h-4 w-4 text-destructive" />
+        ) : (
+          <Wrench className="h-4 w-4 text-primary" />
+        )}
+        <span className="font-medium">{label}</span>
+        <span className="truncate font-mono text-xs text-muted-foreground">
+          {JSON.stringify(step.args)}
+        </span>
+        <ChevronDown
+          className={cn("ml-auto h-4 w-4 shrink-0 transition-transform", open && "rotate-180")}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 px-3 pb-3">
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Arguments</p>
+          <pre className="overflow-x-auto rounded bg-background/60 p-2 font-mono text-xs">
+            {formatJson(step.args)}
+          </pre>
+        </div>
+        {!isPending && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              {step.error ? "Error" : "Result"}
+            </p>
+            <pre
+              className={cn(
+                "max-h-64 overflow-auto rounded bg-background/60 p-2 font-mono text-xs",
+                step.error && "text-destructive"
+              )}
+            >
+              {step.error ?? formatJson(step.result)}
+            </pre>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -16,22 +16,36 @@ import {
   SheetTitle,
   SheetTrigger,
 } from "@/components/ui/sheet";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { SafetySettings, SafetyLevel } from "@/lib/gemini";
+import { MODELS, getModelInfo, getModelLabel, type ThinkingBudgetRange } from "@/lib/models";
+import { TOOL_CATALOG } from "@/lib/tools";
+import type { JsonSchema } from "@/lib/jsonSchema";
+import { SchemaEditor } from "@/components/SchemaEditor";
+import { GenerationParamsFields } from "@/components/GenerationParamsFields";
+import type { GenerationParamErrors, GenerationParams } from "@/lib/generation";
+import { MAX_URLS_PER_MESSAGE, parseUrlList } from "@/lib/urls";
+import { CONTEXT_STRATEGIES, type ContextSettings, type ContextStrategy } from "@/lib/context";
 
 interface TopBarProps {
   model: string;
   setModel: (model: string) => void;
   temperature: number;
   setTemperature: (temperature: number) => void;
+  generationParams: GenerationParams;
+  setGenerationParams: (params: GenerationParams) => void;
+  generationParamErrors: GenerationParamErrors;
   jsonMode: boolean;
   setJsonMode: (jsonMode: boolean) => void;
   useWebSearch: boolean;
   setUseWebSearch: (useWebSearch: boolean) => void;
+  useCodeExecution: boolean;
+  setUseCodeExecution: (useCodeExecution: boolean) => void;
   systemInstruction: string;
   setSystemInstruction: (systemInstruction: string) => void;
   urlContext: string;
@@ -40,12 +54,17 @@ interface TopBarProps {
   setThinkingBudget: (thinkingBudget: number) => void;
   thinkingBudgetEnabled: boolean;
   setThinkingBudgetEnabled: (enabled: boolean) => void;
-  thinkingBudgetRange: {
-    min: number;
-    max: number;
-  };
+  thinkingBudgetRange: ThinkingBudgetRange | null;
   safetySettings: SafetySettings;
   setSafetySettings: (settings: SafetySettings) => void;
+  enabledTools: string[];
+  setEnabledTools: (enabledTools: string[]) => void;
+  fallbackModels: string[];
+  setFallbackModels: (fallbackModels: string[]) => void;
+  responseSchema: JsonSchema | null;
+  setResponseSchema: (schema: JsonSchema | null) => void;
+  contextSettings: ContextSettings;
+  setContextSettings: (settings: ContextSettings) => void;
 }
 
 export function TopBar({ 
@@ -53,10 +72,15 @@ export function TopBar({
   setModel, 
   temperature, 
   setTemperature, 
+  generationParams,
+  setGenerationParams,
+  generationParamErrors,
   jsonMode, 
   setJsonMode,
   useWebSearch,
   setUseWebSearch,
+  useCodeExecution,
+  setUseCodeExecution,
   systemInstruction,
   setSystemInstruction,
   urlContext,
@@ -67,9 +91,45 @@ export function TopBar({
   setThinkingBudgetEnabled,
   thinkingBudgetRange,
   safetySettings,
-  setSafetySettings
+  setSafetySettings,
+  enabledTools,
+  setEnabledTools,
+  fallbackModels,
+  setFallbackModels,
+  responseSchema,
+  setResponseSchema,
+  contextSettings,
+  setContextSettings
 }: TopBarProps) {
-  const sliderStep = Math.max(1, Math.round((thinkingBudgetRange.max - thinkingBudgetRange.min) / 100));
+  const modelInfo = getModelInfo(model);
+  const supportsThinking = thinkingBudgetRange !== null;
+  const supportsJsonMode = modelInfo?.supportsJsonMode ?? false;
+  const supportsSearch = modelInfo?.supportsSearch ?? false;
+  const supportsTools = modelInfo?.supportsTools ?? false;
+  const supportsCodeExecution = modelInfo?.supportsCodeExecution ?? false;
+  const builtInToolOn = (supportsSearch && useWebSearch) || (supportsCodeExecution && useCodeExecution);
+  const multipleCandidates = (generationParams.candidateCount ?? 1) > 1;
+
+  const toggleTool = (name: string, enabled: boolean) => {
+    setEnabledTools(
+      enabled ? [...enabledTools, name] : enabledTools.filter((tool) => tool !== name)
+    );
+  };
+  // Fallbacks are tried in the order they were switched on
+  const toggleFallback = (id: string, enabled: boolean) => {
+    setFallbackModels(
+      enabled ? [...fallbackModels, id] : fallbackModels.filter((fallback) => fallback !== id)
+    );
+  };
+  const fallbackChain = [model, ...fallbackModels.filter((id) => id !== model)];
+  const invalidUrlLines = urlContext
+    .split("\n")
+    .filter((line) => line.trim() && parseUrlList(line).length === 0).length;
+  const contextStrategy = CONTEXT_STRATEGIES.find((option) => option.value === contextSettings.strategy);
+
+  const sliderStep = supportsThinking
+    ? Math.max(1, Math.round((thinkingBudgetRange.max - thinkingBudgetRange.min) / 100))
+    : 1;
 
   const formattedThinkingBudget = `${thinkingBudget} tokens`;
 
@@ -85,9 +145,11 @@ export function TopBar({
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="gemini-2.5-pro">Gemini 2.5 Pro</SelectItem>
-            <SelectItem value="gemini-2.5-flash">Gemini 2.5 Flash</SelectItem>
-            <SelectItem value="gemini-2.5-flash-lite">Gemini 2.5 Flash Lite</SelectItem>
+            {MODELS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
@@ -119,6 +181,21 @@ export function TopBar({
                   Higher values make output more random, lower values more focused
                 </p>
               </div>
+
+              <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-semibold">Sampling</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Leave a field empty to use the model default
+                  </p>
+                </div>
+                <GenerationParamsFields
+                  params={generationParams}
+                  onChange={setGenerationParams}
+                  errors={generationParamErrors}
+                  modelInfo={modelInfo}
+                />
+              </div>
               
               <div className="space-y-2">
                 <Label htmlFor="systemInstruction">System Instructions</Label>
@@ -144,8 +221,62 @@ export function TopBar({
                   className="min-h-[80px] resize-none"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Model will fetch and parse content from these URLs
+                  New URLs are fetched and attached to your next message, up to {MAX_URLS_PER_MESSAGE} at a time
                 </p>
+                {invalidUrlLines > 0 && (
+                  <p className="text-xs text-destructive">
+                    {invalidUrlLines === 1 ? "1 line is" : `${invalidUrlLines} lines are`} not an http(s) URL and will be skipped
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-semibold">Context</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {contextStrategy?.description}. Type /compact to summarize the conversation now.
+                  </p>
+                </div>
+                <div className="grid grid-cols-[minmax(0,1fr)_6rem] gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Strategy</Label>
+                    <Select
+                      value={contextSettings.strategy}
+                      onValueChange={(value: ContextStrategy) =>
+                        setContextSettings({ ...contextSettings, strategy: value })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONTEXT_STRATEGIES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="contextTurns" className="text-xs">Turns (N)</Label>
+                    <Input
+                      id="contextTurns"
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={contextSettings.turns}
+                      onChange={(e) => {
+                        const turns = Number(e.target.value);
+                        if (Number.isInteger(turns) && turns >= 1) {
+                          setContextSettings({ ...contextSettings, turns });
+                        }
+                      }}
+                      disabled={contextSettings.strategy === "all"}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -154,16 +285,19 @@ export function TopBar({
                     <div className="space-y-0.5">
                       <Label className="text-sm font-semibold">Set thinking budget</Label>
                       <p className="text-xs text-muted-foreground">
-                        {thinkingBudgetRange.min.toLocaleString()} - {thinkingBudgetRange.max.toLocaleString()} tokens
+                        {supportsThinking
+                          ? `${thinkingBudgetRange.min.toLocaleString()} - ${thinkingBudgetRange.max.toLocaleString()} tokens`
+                          : "Not supported by this model"}
                       </p>
                     </div>
                     <Switch
-                      checked={thinkingBudgetEnabled}
+                      checked={supportsThinking && thinkingBudgetEnabled}
                       onCheckedChange={setThinkingBudgetEnabled}
+                      disabled={!supportsThinking}
                       aria-label="Toggle custom thinking budget"
                     />
                   </div>
-                  {thinkingBudgetEnabled && (
+                  {supportsThinking && thinkingBudgetEnabled && (
                     <div className="space-y-2">
                       <Label>Thinking Budget: {formattedThinkingBudget}</Label>
                       <Slider
@@ -181,32 +315,110 @@ export function TopBar({
                 </div>
               </div>
 
+              <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
+                <div className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-semibold">JSON Mode</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {supportsJsonMode ? "Force structured JSON output" : "Not supported by this model"}
+                    </p>
+                  </div>
+                  <Switch 
+                    checked={supportsJsonMode && jsonMode} 
+                    onCheckedChange={setJsonMode}
+                    disabled={!supportsJsonMode}
+                  />
+                </div>
+                {supportsJsonMode && jsonMode && (
+                  <SchemaEditor schema={responseSchema} onApply={setResponseSchema} />
+                )}
+              </div>
+              
               <div className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4 p-4 border rounded-lg bg-accent/5">
                 <div className="space-y-0.5">
-                  <Label className="text-sm font-semibold">JSON Mode</Label>
+                  <Label className="text-sm font-semibold">Web Search</Label>
                   <p className="text-xs text-muted-foreground">
-                    Force structured JSON output
+                    {supportsSearch ? "Enable Google Search grounding" : "Not supported by this model"}
                   </p>
                 </div>
                 <Switch 
-                  checked={jsonMode} 
-                  onCheckedChange={setJsonMode}
+                  checked={supportsSearch && useWebSearch} 
+                  onCheckedChange={setUseWebSearch}
+                  disabled={!supportsSearch}
                 />
               </div>
-              
+
               <div className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4 p-4 border rounded-lg bg-accent/5">
                 <div className="space-y-0.5">
-                  <Label className="text-sm font-semibold">Web Search</Label>
+                  <Label className="text-sm font-semibold">Code Execution</Label>
                   <p className="text-xs text-muted-foreground">
-                    Enable Google Search grounding
+                    {supportsCodeExecution ? "Let the model write and run Python" : "Not supported by this model"}
                   </p>
                 </div>
-                <Switch 
-                  checked={useWebSearch} 
-                  onCheckedChange={setUseWebSearch}
+                <Switch
+                  checked={supportsCodeExecution && useCodeExecution}
+                  onCheckedChange={setUseCodeExecution}
+                  disabled={!supportsCodeExecution}
                 />
               </div>
 
+              <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-semibold">Tools</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {!supportsTools
+                      ? "Not supported by this model"
+                      : builtInToolOn
+                        ? "Unavailable while Web Search or Code Execution is on"
+                        : multipleCandidates
+                          ? "Unavailable with multiple candidates"
+                          : "Functions the model may call while answering"}
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  {TOOL_CATALOG.map((tool) => (
+                    <div key={tool.name} className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4">
+                      <div className="space-y-0.5">
+                        <Label className="text-xs">{tool.label}</Label>
+                        <p className="text-xs text-muted-foreground">{tool.description}</p>
+                      </div>
+                      <Switch
+                        checked={supportsTools && enabledTools.includes(tool.name)}
+                        onCheckedChange={(checked) => toggleTool(tool.name, checked)}
+                        disabled={!supportsTools || builtInToolOn || multipleCandidates}
+                        aria-label={`Toggle ${tool.label} tool`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-semibold">Fallback Models</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Tried in order when the selected model is overloaded or rate limited
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  {MODELS.filter((option) => option.id !== model).map((option) => (
+                    <div key={option.id} className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-4">
+                      <Label className="text-xs">{option.label}</Label>
+                      <Switch
+                        checked={fallbackModels.includes(option.id)}
+                        onCheckedChange={(checked) => toggleFallback(option.id, checked)}
+                        aria-label={`Use ${option.label} as a fallback`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {fallbackChain.length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    {fallbackChain.map(getModelLabel).join(" → ")}
+                  </p>
+                )}
+              </div>
+
               <div className="space-y-4 p-4 border rounded-lg bg-accent/5">
                 <Label className="text-sm font-semibold">Safety Filters</Label>
                 <div className="space-y-3">
@@ -0,0 +1,113 @@
+import { useState, type KeyboardEvent, type RefObject } from "react";
+import { defaultFilter } from "cmdk";
+import { commandParser, type Command } from "@/lib/commands";
+
+export interface CommandSuggestion {
+  trigger: string;
+  command: Command;
+}
+
+/** The "/word" being typed at the caret, with the range it occupies in the input. */
+function findTypedTrigger(input: string, caret: number) {
+  let start = caret;
+  while (start > 0 && !/\s/.test(input[start - 1])) start--;
+  let end = caret;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+
+  const word = input.slice(start, caret);
+  return /^\/[\w-]*$/.test(word) ? { query: word.slice(1), start, end } : null;
+}
+
+// Fuzzy-ranks commands by name, falling back to their descriptions; a bare "/" lists them all
+function rankCommands(query: string): CommandSuggestion[] {
+  const suggestions = commandParser
+    .getAvailableCommands()
+    .flatMap((trigger) => {
+      const command = commandParser.getCommand(trigger);
+      return command ? [{ trigger, command }] : [];
+    });
+  if (!query) return suggestions;
+
+  return suggestions
+    .map((suggestion) => ({
+      suggestion,
+      score: defaultFilter(suggestion.command.name, query, [suggestion.command.description]),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Drives the slash-command menu of a textarea: which commands match the word at the caret,
+ * which one is highlighted, and the keys that move through and insert them.
+ */
+export function useCommandMenu(
+  input: string,
+  setInput: (value: string) => void,
+  textareaRef: RefObject<HTMLTextAreaElement>
+) {
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  // Escape hides the menu until the typed word changes
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  const typed = findTypedTrigger(input, caret);
+  const typedKey = typed ? `${typed.start}:${typed.query}` : null;
+  const suggestions = typed ? rankCommands(typed.query) : [];
+  const open = typed !== null && suggestions.length > 0 && dismissed !== typedKey;
+  const active = suggestions.find((suggestion) => suggestion.trigger === highlighted) ?? suggestions[0];
+
+  const insert = (trigger: string) => {
+    if (!typed) return;
+    const before = `${input.slice(0, typed.start)}${trigger} `;
+    const after = input.slice(typed.end).replace(/^\s+/, "");
+    setInput(before + after);
+    setHighlighted(null);
+
+    // Put the caret after the inserted trigger once the new value has rendered
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+      setCaret(before.length);
+    });
+  };
+
+  /** Handles the menu's keys; returns true when the event was consumed. */
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (!open || !active) return false;
+
+    const index = suggestions.indexOf(active);
+    switch (event.key) {
+      case "ArrowDown":
+        setHighlighted(suggestions[(index + 1) % suggestions.length].trigger);
+        break;
+      case "ArrowUp":
+        setHighlighted(suggestions[(index - 1 + suggestions.length) % suggestions.length].trigger);
+        break;
+      case "Enter":
+      case "Tab":
+        if (event.shiftKey) return false;
+        insert(active.trigger);
+        break;
+      case "Escape":
+        setDismissed(typedKey);
+        break;
+      default:
+        return false;
+    }
+    event.preventDefault();
+    return true;
+  };
+
+  return {
+    open,
+    suggestions,
+    active: active?.trigger ?? null,
+    setHighlighted,
+    insert,
+    handleKeyDown,
+    /** Keeps track of the caret; wire to the textarea's onSelect */
+    trackCaret: (element: HTMLTextAreaElement) => setCaret(element.selectionStart),
+  };
+}
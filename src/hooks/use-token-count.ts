@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useState } from "react";
+import { countTokens, type Message } from "@/lib/gemini";
+
+const COUNT_DEBOUNCE_MS = 800;
+
+interface UseTokenCountOptions {
+  messages: Message[];
+  /** Unsent composer text, counted as the next user turn */
+  draft: string;
+  model: string;
+  systemInstruction?: string;
+  /** URLs that would be attached to the draft */
+  draftUrls?: string[];
+  enabled?: boolean;
+}
+
+/** Debounced server-side token count of what the next request would send. */
+export function useTokenCount({
+  messages,
+  draft,
+  model,
+  systemInstruction,
+  draftUrls,
+  enabled = true,
+}: UseTokenCountOptions) {
+  const [tokenCount, setTokenCount] = useState<number | null>(null);
+  const [isCounting, setIsCounting] = useState(false);
+
+  // Re-count only when the content changes, not on every new messages array
+  const requestKey = useMemo(
+    () =>
+      JSON.stringify({
+        messages: [
+          ...messages.map(({ role, content, attachments, urls }) => ({
+            role,
+            content,
+            attachments: attachments?.map(({ path, name, mimeType }) => ({ path, name, mimeType })),
+            urls,
+          })),
+          ...(draft.trim() ? [{ role: "user", content: draft, urls: draftUrls }] : []),
+        ],
+        model,
+        systemInstruction,
+      }),
+    [messages, draft, draftUrls, model, systemInstruction]
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsCounting(true);
+      try {
+        const result = await countTokens(JSON.parse(requestKey));
+        if (!cancelled) setTokenCount(result.totalTokens);
+      } catch (error) {
+        console.error("Error counting tokens:", error);
+      } finally {
+        if (!cancelled) setIsCounting(false);
+      }
+    }, COUNT_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [requestKey, enabled]);
+
+  return { tokenCount, isCounting };
+}
@@ -14,12 +14,144 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_usage: {
+        Row: {
+          created_at: string
+          function_name: string
+          id: string
+          tokens: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          function_name: string
+          id?: string
+          tokens?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          function_name?: string
+          id?: string
+          tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      context_summaries: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          last_message_id: string
+          model: string
+          session_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          last_message_id: string
+          model: string
+          session_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          last_message_id?: string
+          model?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "context_summaries_last_message_id_fkey"
+            columns: ["last_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "context_summaries_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_events: {
+        Row: {
+          created_at: string
+          event: Json
+          generation_id: string
+          seq: number
+        }
+        Insert: {
+          created_at?: string
+          event: Json
+          generation_id: string
+          seq: number
+        }
+        Update: {
+          created_at?: string
+          event?: Json
+          generation_id?: string
+          seq?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_events_generation_id_fkey"
+            columns: ["generation_id"]
+            isOneToOne: false
+            referencedRelation: "generations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generations: {
+        Row: {
+          created_at: string
+          done: boolean
+          id: string
+          message_id: string | null
+          stop_requested: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          done?: boolean
+          id: string
+          message_id?: string | null
+          stop_requested?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          done?: boolean
+          id?: string
+          message_id?: string | null
+          stop_requested?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generations_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_attachments: {
         Row: {
           created_at: string
           file_name: string
           file_path: string
           file_size: number
+          gemini_file_expires_at: string | null
+          gemini_file_uri: string | null
           id: string
           message_id: string
           mime_type: string
@@ -29,6 +161,8 @@ export type Database = {
           file_name: string
           file_path: string
           file_size: number
+          gemini_file_expires_at?: string | null
+          gemini_file_uri?: string | null
           id?: string
           message_id: string
           mime_type: string
@@ -38,6 +172,8 @@ export type Database = {
           file_name?: string
           file_path?: string
           file_size?: number
+          gemini_file_expires_at?: string | null
+          gemini_file_uri?: string | null
           id?: string
           message_id?: string
           mime_type?: string
@@ -54,27 +190,79 @@ export type Database = {
       }
       messages: {
         Row: {
+          candidates: Json | null
+          code_executions: Json | null
           content: string
           created_at: string
+          error: string | null
+          finish_reason: string | null
+          grounding: Json | null
           id: string
+          model: string | null
+          parent_id: string | null
           role: string
+          schema_validation: Json | null
+          selected_candidate: number | null
           session_id: string
+          status: string
+          thoughts: string | null
+          tool_calls: Json | null
+          updated_at: string
+          urls: string[] | null
+          usage: Json | null
         }
         Insert: {
+          candidates?: Json | null
+          code_executions?: Json | null
           content: string
           created_at?: string
+          error?: string | null
+          finish_reason?: string | null
+          grounding?: Json | null
           id?: string
+          model?: string | null
+          parent_id?: string | null
           role: string
+          schema_validation?: Json | null
+          selected_candidate?: number | null
           session_id: string
+          status?: string
+          thoughts?: string | null
+          tool_calls?: Json | null
+          updated_at?: string
+          urls?: string[] | null
+          usage?: Json | null
         }
         Update: {
+          candidates?: Json | null
+          code_executions?: Json | null
           content?: string
           created_at?: string
+          error?: string | null
+          finish_reason?: string | null
+          grounding?: Json | null
           id?: string
+          model?: string | null
+          parent_id?: string | null
           role?: string
+          schema_validation?: Json | null
+          selected_candidate?: number | null
           session_id?: string
+          status?: string
+          thoughts?: string | null
+          tool_calls?: Json | null
+          updated_at?: string
+          urls?: string[] | null
+          usage?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_session_id_fkey"
             columns: ["session_id"]
@@ -84,37 +272,123 @@ export type Database = {
           },
         ]
       }
+      prompt_macros: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          settings: Json
+          template: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          settings?: Json
+          template: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          settings?: Json
+          template?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       sessions: {
         Row: {
+          active_message_id: string | null
+          context_strategy: string
+          context_turns: number
           created_at: string
+          enabled_tools: string[]
+          fallback_models: string[]
+          generation_params: Json
           id: string
           json_mode: boolean
           model: string
           name: string | null
+          response_schema: Json | null
           temperature: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          active_message_id?: string | null
+          context_strategy?: string
+          context_turns?: number
           created_at?: string
+          enabled_tools?: string[]
+          fallback_models?: string[]
+          generation_params?: Json
           id?: string
           json_mode?: boolean
           model?: string
           name?: string | null
+          response_schema?: Json | null
           temperature?: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          active_message_id?: string | null
+          context_strategy?: string
+          context_turns?: number
           created_at?: string
+          enabled_tools?: string[]
+          fallback_models?: string[]
+          generation_params?: Json
           id?: string
           json_mode?: boolean
           model?: string
           name?: string | null
+          response_schema?: Json | null
           temperature?: number
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "sessions_active_message_id_fkey"
+            columns: ["active_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      url_cache: {
+        Row: {
+          content: string
+          etag: string
+          fetched_at: string
+          title: string
+          url: string
+        }
+        Insert: {
+          content: string
+          etag?: string
+          fetched_at?: string
+          title?: string
+          url: string
+        }
+        Update: {
+          content?: string
+          etag?: string
+          fetched_at?: string
+          title?: string
+          url?: string
+        }
         Relationships: []
       }
     }
@@ -122,7 +396,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_rate_limit: {
+        Args: {
+          p_function_name: string
+          p_max_requests: number
+          p_max_tokens: number
+          p_request_window_seconds: number
+          p_token_window_seconds: number
+          p_user_id: string
+        }
+        Returns: {
+          allowed: boolean
+          limit_type: string
+          retry_after_seconds: number
+          usage_id: string
+        }[]
+      }
+      record_token_usage: {
+        Args: { p_tokens: number; p_usage_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
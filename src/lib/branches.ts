@@ -0,0 +1,58 @@
+import type { Message } from "@/lib/gemini";
+
+// A session's saved messages form a tree through parentId: editing an earlier user message
+// adds a sibling under the same parent. The chat shows one path from a root down to a leaf.
+
+/** Children of every message in creation order; roots are listed under null. */
+export function indexChildren(messages: Message[]): Map<string | null, Message[]> {
+  const children = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    if (!message.id) continue;
+    const key = message.parentId ?? null;
+    children.set(key, [...(children.get(key) ?? []), message]);
+  }
+  return children;
+}
+
+/**
+ * Adds the saved messages of the shown path to the tree. Path copies replace the tree's,
+ * since they hold the latest local state; unsaved ones are not part of the tree yet.
+ */
+export function mergeBranch(tree: Message[], path: Message[]): Message[] {
+  const byId = new Map(tree.filter((message) => message.id).map((message) => [message.id, message]));
+  for (const message of path) {
+    if (message.id) byId.set(message.id, message);
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * The path through a message: its ancestors, the message itself, then the newest child at
+ * each step below it. Without a known message the newest one in the tree is followed.
+ */
+export function resolveActivePath(tree: Message[], messageId?: string | null): Message[] {
+  const byId = new Map(tree.filter((message) => message.id).map((message) => [message.id, message]));
+  const target = (messageId && byId.get(messageId)) || Array.from(byId.values()).pop();
+  if (!target) return [];
+
+  // The seen set guards against cycles in damaged data
+  const path: Message[] = [];
+  const seen = new Set<Message>();
+  let ancestor: Message | undefined = target;
+  while (ancestor && !seen.has(ancestor)) {
+    seen.add(ancestor);
+    path.unshift(ancestor);
+    ancestor = ancestor.parentId ? byId.get(ancestor.parentId) : undefined;
+  }
+
+  const children = indexChildren(tree);
+  let below = children.get(target.id ?? null);
+  while (below?.length) {
+    const newest = below[below.length - 1];
+    if (seen.has(newest)) break;
+    seen.add(newest);
+    path.push(newest);
+    below = children.get(newest.id ?? null);
+  }
+  return path;
+}
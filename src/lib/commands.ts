@@ -1,18 +1,156 @@
-export interface CommandOptions {
-  useWebSearch?: boolean;
-  [key: string]: unknown;
+import type { GeminiStreamOptions, GeneratedText, Message, TextGenerationOptions } from "@/lib/gemini";
+import { MODELS } from "@/lib/models";
+
+// Request settings a command can change for one turn; the transcript, signal and callbacks stay with the chat
+export type TurnSettings = Partial<
+  Omit<GeminiStreamOptions, 'messages' | 'signal' | 'sessionId' | 'continueMessageId' | 'parentMessageId' | `on${string}`>
+>;
+
+/** What a conversation command can read and do once the turn is sent */
+export interface CommandContext {
+  /** The conversation as shown, oldest first */
+  history: Message[];
+  /** The prompt with its commands removed */
+  draft: string;
+  /**
+   * Runs a one-off generation outside the conversation. The settings are the command's
+   * preferences; the turn's /model, /temp and /system still win over them.
+   */
+  generate: (prompt: string, settings?: Omit<TextGenerationOptions, 'prompt'>) => Promise<GeneratedText>;
+}
+
+/** Where the result of a conversation command goes */
+export type CommandOutcome =
+  /** Replaces the draft in the composer, to be reviewed before sending */
+  | { type: 'draft'; text: string }
+  /** Appended to the conversation as the answer to the command */
+  | { type: 'message'; content: string; model: string }
+  /** The chat continues generating this saved reply */
+  | { type: 'continue'; message: Message };
+
+export interface CommandOptions extends TurnSettings {
+  /** Fold the conversation so far into the session's rolling summary */
+  compact?: boolean;
+  /** Prompt template the command expands to, with the {{variables}} given inline */
+  template?: { name: string; text: string; values: Record<string, string> };
+  /** Works on the conversation instead of sending the prompt; errors are shown to the user */
+  run?: (context: CommandContext) => Promise<CommandOutcome>;
 }
 
+export interface CommandArgument {
+  name: string;
+  /** Shown as the argument hint in the command menu */
+  description?: string;
+  type: 'number' | 'integer' | 'string' | 'choice';
+  min?: number;
+  max?: number;
+  /** Accepted values of a choice argument, mapped to the value the command receives */
+  choices?: Record<string, string>;
+  /** Given as name=value in any order after the positional arguments, and optional */
+  named?: boolean;
+}
+
+export type CommandArgs = Record<string, string | number>;
+
 export interface Command {
   name: string;
-  execute: (prompt: string) => CommandResult;
+  description: string;
+  /** Complete invocations shown in the command menu */
+  examples?: string[];
+  /** Arguments follow the trigger in order; quote a string argument to include spaces */
+  args?: CommandArgument[];
+  execute: (args: CommandArgs) => CommandOptions;
 }
 
 export interface CommandResult {
   cleanedPrompt: string;
   options: CommandOptions;
+  /** Problems with the commands in the prompt; a turn with errors should not be sent */
+  errors: string[];
+}
+
+interface Token {
+  value: string;
+  quoted: boolean;
+  start: number;
+  end: number;
+}
+
+// Whitespace-separated words; double quotes group words, also as the value of name="...",
+// and \" escapes a quote inside them
+const TOKEN_PATTERN = /([\w-]+=)?"((?:[^"\\]|\\.)*)"|\S+/g;
+const NAMED_ARGUMENT_PATTERN = /^([\w-]+)=/;
+
+function tokenize(prompt: string): Token[] {
+  return Array.from(prompt.matchAll(TOKEN_PATTERN), (match) => ({
+    value: match[2] !== undefined ? `${match[1] ?? ''}${match[2].replace(/\\(.)/g, '$1')}` : match[0],
+    quoted: match[2] !== undefined,
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+// Short names for the models, besides their full ids and the ids without the "gemini-" prefix
+const MODEL_ALIASES: Record<string, string> = {
+  pro: 'gemini-2.5-pro',
+  flash: 'gemini-2.5-flash',
+  lite: 'gemini-2.5-flash-lite',
+  ...Object.fromEntries(MODELS.flatMap((model) => [
+    [model.id, model.id],
+    [model.id.replace(/^gemini-/, ''), model.id],
+  ])),
+};
+
+function describeRange(argument: CommandArgument): string {
+  if (argument.min !== undefined && argument.max !== undefined) return ` between ${argument.min} and ${argument.max}`;
+  if (argument.min !== undefined) return ` of at least ${argument.min}`;
+  if (argument.max !== undefined) return ` of at most ${argument.max}`;
+  return '';
 }
 
+/** Converts a raw argument to its type, or returns the reason it is invalid. */
+function readArgument(argument: CommandArgument, raw: string): { value: string | number } | { error: string } {
+  switch (argument.type) {
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      const isValid = raw.trim() !== '' &&
+        (argument.type === 'integer' ? Number.isInteger(value) : Number.isFinite(value)) &&
+        (argument.min === undefined || value >= argument.min) &&
+        (argument.max === undefined || value <= argument.max);
+      return isValid
+        ? { value }
+        : { error: `expects ${argument.type === 'integer' ? 'a whole number' : 'a number'}${describeRange(argument)}, got "${raw}"` };
+    }
+    case 'choice': {
+      const value = argument.choices?.[raw.toLowerCase()];
+      return value !== undefined
+        ? { value }
+        : { error: `does not know "${raw}". Try ${Object.keys(argument.choices ?? {}).slice(0, 5).join(', ')}` };
+    }
+    default:
+      return raw ? { value: raw } : { error: `needs a non-empty ${argument.name}` };
+  }
+}
+
+/** Trigger followed by its argument placeholders, e.g. "/temp <temperature>". */
+export function formatCommandUsage(trigger: string, command: Command): string {
+  return [
+    trigger,
+    ...(command.args ?? []).map((argument) => (argument.named ? `[${argument.name}=…]` : `<${argument.name}>`)),
+  ].join(' ');
+}
+
+const formatTranscript = (messages: Message[]) =>
+  messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+const lastAnswer = (history: Message[]) =>
+  [...history].reverse().find((message) => message.role === 'assistant' && message.content.trim());
+
+const withInstructions = (draft: string) => (draft ? `\n\nAdditional instructions from the user: ${draft}` : '');
+
 export class CommandParser {
   private commands: Map<string, Command> = new Map();
 
@@ -24,43 +162,244 @@ export class CommandParser {
     // Web search command
     this.commands.set('/web', {
       name: 'web',
-      execute: (prompt: string) => ({
-        cleanedPrompt: prompt.replace(/\s*\/web\s*/gi, '').trim(),
-        options: { useWebSearch: true }
+      description: 'Search the web for this turn',
+      examples: ['/web latest TypeScript release'],
+      execute: () => ({ useWebSearch: true })
+    });
+
+    // Code execution command
+    this.commands.set('/code', {
+      name: 'code',
+      description: 'Let Gemini run Python for this turn',
+      examples: ['/code plot the first 20 primes'],
+      execute: () => ({ useCodeExecution: true })
+    });
+
+    // JSON mode command
+    this.commands.set('/json', {
+      name: 'json',
+      description: 'Answer in JSON for this turn',
+      examples: ['/json list three colors with their hex codes'],
+      execute: () => ({ jsonMode: true })
+    });
+
+    // Compact history command
+    this.commands.set('/compact', {
+      name: 'compact',
+      description: 'Fold the conversation so far into a summary',
+      examples: ['/compact'],
+      execute: () => ({ compact: true })
+    });
+
+    // Sampling temperature for this turn
+    this.commands.set('/temp', {
+      name: 'temp',
+      description: 'Set the temperature for this turn',
+      examples: ['/temp 0.2 write a haiku'],
+      args: [{ name: 'temperature', description: '0 to 2', type: 'number', min: 0, max: 2 }],
+      execute: ({ temperature }) => ({ temperature: Number(temperature) })
+    });
+
+    // Model for this turn
+    this.commands.set('/model', {
+      name: 'model',
+      description: 'Answer this turn with another model',
+      examples: ['/model pro review this proof', '/model lite'],
+      args: [{ name: 'model', description: 'pro, flash, lite or a model id', type: 'choice', choices: MODEL_ALIASES }],
+      execute: ({ model }) => ({ model: String(model) })
+    });
+
+    // Thinking budget for this turn; the server fits it to the model's range
+    this.commands.set('/budget', {
+      name: 'budget',
+      description: 'Set the thinking budget for this turn',
+      examples: ['/budget 4096 solve this puzzle', '/budget 0'],
+      args: [{ name: 'tokens', description: '0 to 32768', type: 'integer', min: 0, max: 32_768 }],
+      execute: ({ tokens }) => ({ thinkingBudget: Number(tokens) })
+    });
+
+    // System instruction for this turn
+    this.commands.set('/system', {
+      name: 'system',
+      description: 'Replace the system instruction for this turn',
+      examples: ['/system "be terse" explain monads'],
+      args: [{ name: 'instruction', description: 'quote it to use several words', type: 'string' }],
+      execute: ({ instruction }) => ({ systemInstruction: String(instruction) })
+    });
+
+    // Summary of the conversation, added to it as an answer
+    this.commands.set('/summarize', {
+      name: 'summarize',
+      description: 'Summarize the conversation so far',
+      examples: ['/summarize', '/summarize only the decisions we made'],
+      execute: () => ({
+        run: async ({ history, draft, generate }) => {
+          if (history.length === 0) throw new Error('There is nothing to summarize yet');
+          const { text, model } = await generate(
+            'Summarize the conversation below for someone who has not read it. Keep the facts, decisions, ' +
+            'open questions and any code identifiers; use short Markdown bullet points in the language of the ' +
+            `conversation.${withInstructions(draft)}\n\nConversation:\n${formatTranscript(history)}`,
+            { temperature: 0.2 }
+          );
+          return { type: 'message', content: text, model };
+        }
       })
     });
 
-    // Add more commands here in the future
-    // Example: this.commands.set('/image', { ... })
+    // The latest answer in another language
+    this.commands.set('/translate', {
+      name: 'translate',
+      description: 'Translate the latest answer',
+      examples: ['/translate german', '/translate "brazilian portuguese"'],
+      args: [{ name: 'language', description: 'quote it to use several words', type: 'string' }],
+      execute: ({ language }) => ({
+        run: async ({ history, draft, generate }) => {
+          const answer = lastAnswer(history);
+          if (!answer) throw new Error('There is no answer to translate yet');
+          const { text, model } = await generate(
+            `Translate the text below into ${language}. Keep the Markdown formatting, code blocks, links and ` +
+            `names unchanged, and output only the translation.${withInstructions(draft)}\n\nText:\n${answer.content}`,
+            { temperature: 0.2 }
+          );
+          return { type: 'message', content: text, model };
+        }
+      })
+    });
+
+    // Rewrites the draft before it is sent
+    this.commands.set('/improve', {
+      name: 'improve',
+      description: 'Rewrite the draft into a clearer prompt',
+      examples: ['/improve explain closures'],
+      execute: () => ({
+        run: async ({ history, draft, generate }) => {
+          if (!draft) throw new Error('Type the prompt to improve after /improve');
+          const context = history.length > 0
+            ? `\n\nThe prompt continues this conversation:\n${formatTranscript(history.slice(-4))}`
+            : '';
+          const { text } = await generate(
+            'Rewrite the prompt below so a language model answers it well: make the goal, context and expected ' +
+            'format explicit, keep the intent and the language, and do not answer it. Output only the rewritten ' +
+            `prompt.${context}\n\nPrompt:\n${draft}`,
+            { temperature: 0.4 }
+          );
+          return { type: 'draft', text };
+        }
+      })
+    });
+
+    // Picks up where the latest answer left off
+    this.commands.set('/continue', {
+      name: 'continue',
+      description: 'Extend the latest answer where it stopped',
+      examples: ['/continue'],
+      execute: () => ({
+        run: async ({ history }) => {
+          const answer = history[history.length - 1];
+          if (answer?.role !== 'assistant' || !answer.id) throw new Error('There is no saved answer to continue');
+          return { type: 'continue', message: answer };
+        }
+      })
+    });
   }
 
   public registerCommand(trigger: string, command: Command) {
-    this.commands.set(trigger, command);
+    this.commands.set(trigger.toLowerCase(), command);
+  }
+
+  public unregisterCommand(trigger: string) {
+    this.commands.delete(trigger.toLowerCase());
   }
 
   public parse(prompt: string): CommandResult {
-    let result: CommandResult = {
-      cleanedPrompt: prompt,
-      options: {}
+    const tokens = tokenize(prompt);
+    const removed: Array<[number, number]> = [];
+    const errors: string[] = [];
+    let options: CommandOptions = {};
+
+    // Only whole, unquoted words that match a trigger are commands, so "/website" and "a/web/b" stay text
+    const commandAt = (index: number) => {
+      const token = tokens[index];
+      return token && !token.quoted ? this.commands.get(token.value.toLowerCase()) : undefined;
     };
 
-    // Check for commands in the prompt
-    for (const [trigger, command] of this.commands.entries()) {
-      if (prompt.includes(trigger)) {
-        const commandResult = command.execute(prompt);
-        result = {
-          cleanedPrompt: commandResult.cleanedPrompt,
-          options: { ...result.options, ...commandResult.options }
-        };
+    for (let index = 0; index < tokens.length; index++) {
+      const command = commandAt(index);
+      if (!command) continue;
+
+      const trigger = tokens[index].value;
+      let start = tokens[index].start;
+      let end = tokens[index].end;
+      const args: CommandArgs = {};
+      let isValid = true;
+
+      for (const argument of (command.args ?? []).filter((candidate) => !candidate.named)) {
+        const token = tokens[index + 1];
+        if (!token || commandAt(index + 1)) {
+          errors.push(`${trigger} needs a ${argument.name}`);
+          isValid = false;
+          break;
+        }
+        index++;
+        end = token.end;
+
+        const result = readArgument(argument, token.value);
+        if ('error' in result) {
+          errors.push(`${trigger} ${result.error}`);
+          isValid = false;
+          break;
+        }
+        args[argument.name] = result.value;
+      }
+
+      const named = new Map((command.args ?? []).filter((argument) => argument.named).map((argument) => [argument.name, argument]));
+      while (isValid && named.size > 0) {
+        const token = tokens[index + 1];
+        const match = token ? NAMED_ARGUMENT_PATTERN.exec(token.value) : null;
+        const argument = match ? named.get(match[1]) : undefined;
+        if (!token || !match || !argument) break;
+        index++;
+        end = token.end;
+
+        const result = readArgument(argument, token.value.slice(match[0].length));
+        if ('error' in result) {
+          errors.push(`${trigger} ${argument.name}= ${result.error}`);
+          isValid = false;
+          break;
+        }
+        args[argument.name] = result.value;
+      }
+
+      // The command and its arguments leave the prompt along with the spacing around them
+      while (end < prompt.length && (prompt[end] === ' ' || prompt[end] === '\t')) end++;
+      if (end === prompt.length || prompt[end] === '\n') {
+        while (start > 0 && (prompt[start - 1] === ' ' || prompt[start - 1] === '\t')) start--;
+      }
+      removed.push([start, end]);
+
+      if (isValid) {
+        options = { ...options, ...command.execute(args) };
       }
     }
 
-    return result;
+    let cleanedPrompt = '';
+    let position = 0;
+    for (const [start, end] of removed) {
+      cleanedPrompt += prompt.slice(position, start);
+      position = end;
+    }
+    cleanedPrompt += prompt.slice(position);
+
+    return { cleanedPrompt: cleanedPrompt.trim(), options, errors };
   }
 
   public getAvailableCommands(): string[] {
     return Array.from(this.commands.keys());
   }
+
+  public getCommand(trigger: string): Command | undefined {
+    return this.commands.get(trigger.toLowerCase());
+  }
 }
 
 export const commandParser = new CommandParser();
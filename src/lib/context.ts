@@ -0,0 +1,136 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Message } from "@/lib/gemini";
+
+export type ContextStrategy = "all" | "last_n" | "summarize";
+
+export interface ContextSettings {
+  strategy: ContextStrategy;
+  /** Most recent turns sent verbatim by the last_n and summarize strategies */
+  turns: number;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = { strategy: "all", turns: 10 };
+
+export const CONTEXT_STRATEGIES: { value: ContextStrategy; label: string; description: string }[] = [
+  { value: "all", label: "Send everything", description: "The whole conversation is sent with every message" },
+  { value: "last_n", label: "Last N turns", description: "Older turns are dropped from what the model sees" },
+  {
+    value: "summarize",
+    label: "Rolling summary",
+    description: "Older turns are folded into a summary once the conversation grows past twice N turns",
+  },
+];
+
+/** A compacted stretch of history; it covers every message up to and including lastMessageId. */
+export interface ContextSummary {
+  id?: string;
+  content: string;
+  lastMessageId: string;
+  model: string;
+  createdAt?: string;
+}
+
+export interface ContextSelection {
+  messages: Message[];
+  systemInstruction?: string;
+}
+
+export interface CompactionPlan {
+  /** Messages to fold into the next summary, oldest first */
+  messages: Message[];
+  lastMessageId: string;
+}
+
+/** Index of the first message of the Nth most recent turn; a turn starts at a user message. */
+const startOfLastTurns = (messages: Message[], turns: number) => {
+  let seen = 0;
+  for (let index = messages.length - 1; index >= 0; index--) {
+    if (messages[index].role === "user" && ++seen === turns) {
+      return index;
+    }
+  }
+  return 0;
+};
+
+const countTurns = (messages: Message[]) => messages.filter((message) => message.role === "user").length;
+
+/** Index of the first message not covered by the summary; 0 when it covers nothing we still hold. */
+const startAfterSummary = (messages: Message[], summary: ContextSummary | null) => {
+  if (!summary) return 0;
+  const index = messages.findIndex((message) => message.id === summary.lastMessageId);
+  return index === -1 ? 0 : index + 1;
+};
+
+/** Picks the history sent with the next request according to the session's context strategy. */
+export function selectHistory(
+  messages: Message[],
+  settings: ContextSettings,
+  summary: ContextSummary | null,
+  systemInstruction?: string
+): ContextSelection {
+  switch (settings.strategy) {
+    case "last_n":
+      return { messages: messages.slice(startOfLastTurns(messages, settings.turns)), systemInstruction };
+    case "summarize": {
+      const start = startAfterSummary(messages, summary);
+      if (!summary || start === 0) {
+        return { messages, systemInstruction };
+      }
+      const summaryText = `[Summary of earlier conversation]\n${summary.content}`;
+      return {
+        messages: messages.slice(start),
+        systemInstruction: systemInstruction ? `${systemInstruction}\n\n${summaryText}` : summaryText,
+      };
+    }
+    default:
+      return { messages, systemInstruction };
+  }
+}
+
+/**
+ * Works out which turns to fold into the summary next. Automatic compaction waits until
+ * more than twice N turns are unsummarized and then keeps the last N; a forced one
+ * folds everything. Returns null when there is nothing to fold.
+ */
+export function planCompaction(
+  messages: Message[],
+  settings: ContextSettings,
+  summary: ContextSummary | null,
+  force = false
+): CompactionPlan | null {
+  const start = startAfterSummary(messages, summary);
+  const pending = messages.slice(start);
+
+  let end = pending.length;
+  if (!force) {
+    if (countTurns(pending) <= settings.turns * 2) return null;
+    end = startOfLastTurns(pending, settings.turns);
+  }
+
+  // Only saved messages can anchor the summary, and what stays must start with a whole turn
+  while (end > 0 && (!pending[end - 1].id || (end < pending.length && pending[end].role !== "user"))) {
+    end--;
+  }
+  const folded = pending.slice(0, end);
+  const lastMessageId = folded[folded.length - 1]?.id;
+  if (!lastMessageId || countTurns(folded) === 0) return null;
+
+  return { messages: folded, lastMessageId };
+}
+
+/** Folds messages into the previous summary with a cheap model. */
+export async function summarizeHistory(
+  messages: Message[],
+  previousSummary?: string
+): Promise<{ summary: string; model: string }> {
+  const { data, error } = await supabase.functions.invoke<{ summary: string; model: string }>("compact-history", {
+    body: {
+      messages: messages.map(({ role, content }) => ({ role, content })),
+      previousSummary,
+    },
+  });
+
+  if (error) throw error;
+  if (!data) throw new Error("Empty summary response");
+  return data;
+}
@@ -1,15 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_MODEL_ID } from "@/lib/models";
+import {
+  parseStreamEvent,
+  type CodeExecutionStep,
+  type GroundingMetadata,
+  type MessageStatus,
+  type StreamErrorCode,
+  type TokenUsage,
+  type ToolCallStep,
+} from "@/lib/events";
+import type { JsonSchema, SchemaValidation } from "@/lib/jsonSchema";
+import type { GenerationParams } from "@/lib/generation";
+
 export type SafetyLevel = "BLOCK_NONE" | "BLOCK_ONLY_HIGH" | "BLOCK_MEDIUM_AND_ABOVE" | "BLOCK_LOW_AND_ABOVE";
 
+export interface Attachment {
+  name: string;
+  mimeType: string;
+  /** Object path inside the chat-attachments bucket */
+  path: string;
+  /** Size in bytes, known for files attached in this browser session */
+  size?: number;
+  /** Signed or object URL used for rendering; never sent to the model */
+  previewUrl?: string;
+}
+
+/** One sampled response when several candidates were requested */
+export interface CandidateContent {
+  content: string;
+  thoughts?: string;
+  finishReason?: string;
+  grounding?: GroundingMetadata;
+  codeExecutions?: CodeExecutionStep[];
+  schemaValidation?: SchemaValidation;
+}
+
 export interface Message {
+  /** Database id, once the message has been saved */
+  id?: string;
+  /** Message this one follows; siblings under the same parent are alternative branches */
+  parentId?: string;
   role: "user" | "assistant";
   content: string;
-  attachments?: string[];
+  attachments?: Attachment[];
+  /** URLs whose page content was sent along with this user turn */
+  urls?: string[];
+  thoughts?: string;
+  finishReason?: string;
+  grounding?: GroundingMetadata;
+  toolCalls?: ToolCallStep[];
+  /** Code run by the code execution tool, in the order it ran */
+  codeExecutions?: CodeExecutionStep[];
+  /** Model that produced an assistant message */
+  model?: string;
+  /** Set when the message was generated against a response schema */
+  schemaValidation?: SchemaValidation;
+  /**
+   * All candidates of a multi-candidate answer. The fields above mirror the
+   * selected one, which is what later turns see as history.
+   */
+  candidates?: CandidateContent[];
+  selectedCandidate?: number;
+  /** Token usage reported for an assistant message */
+  usage?: TokenUsage;
+  /** Generation state of a saved assistant message; missing means complete */
+  status?: MessageStatus;
+  /** Why generation failed, for failed messages */
+  error?: string;
 }
 
-export interface TokenMetadata {
-  promptTokens: number;
-  completionTokens: number;
-  totalTokens: number;
+export type TokenMetadata = TokenUsage;
+
+export class GeminiStreamError extends Error {
+  constructor(
+    message: string,
+    public readonly code: StreamErrorCode,
+    public readonly retryable: boolean,
+    /** Seconds until the request may be retried, when the server says so */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = "GeminiStreamError";
+  }
+}
+
+const FINISH_REASON_NOTICES: Record<string, string> = {
+  MAX_TOKENS: "Response was cut off because it reached the maximum output length.",
+  SAFETY: "Response was stopped by the safety filters.",
+  RECITATION: "Response was stopped because it closely recited existing content.",
+  PROHIBITED_CONTENT: "Response was blocked for prohibited content.",
+  BLOCKLIST: "Response was blocked by a terminology blocklist.",
+  SPII: "Response was blocked because it contained sensitive personal information.",
+  MAX_TOOL_STEPS: "Response stopped after reaching the tool call limit for one turn.",
+};
+
+/** Notice for a saved reply whose generation did not complete, or null when it did. */
+export function describeMessageStatus(status?: MessageStatus, error?: string): string | null {
+  switch (status) {
+    case "streaming":
+      return "Still generating. This reply updates as it is written.";
+    case "interrupted":
+      return "Generation was interrupted before the reply finished.";
+    case "failed":
+      return error ? `Generation failed: ${error}` : "Generation failed before the reply finished.";
+    case "stopped":
+      return "Stopped before the reply finished.";
+    default:
+      return null;
+  }
+}
+
+/** Human-readable explanation for a finish reason, or null when the response ended normally. */
+export function describeFinishReason(finishReason?: string): string | null {
+  if (!finishReason || finishReason === "STOP") {
+    return null;
+  }
+
+  return FINISH_REASON_NOTICES[finishReason] ?? `Response ended early (${finishReason}).`;
 }
 
 export interface SafetySettings {
@@ -23,117 +130,381 @@ export interface GeminiStreamOptions {
   messages: Message[];
   model?: string;
   temperature?: number;
+  generation?: GenerationParams;
   jsonMode?: boolean;
   useWebSearch?: boolean;
+  useCodeExecution?: boolean;
   systemInstruction?: string;
-  urlContext?: string;
   safetySettings?: SafetySettings;
   thinkingBudget?: number;
-  onToken: (token: string) => void;
+  enabledTools?: string[];
+  fallbackModels?: string[];
+  responseSchema?: JsonSchema | null;
+  /** Session the server saves the turn to, replying into a message row as it streams */
+  sessionId?: string;
+  /** Saved reply to extend instead of answering the newest user message; needs sessionId */
+  continueMessageId?: string;
+  /** Saved message the newest user message follows; a past one starts a new branch */
+  parentMessageId?: string;
+  /** Candidate-specific callbacks receive the candidate index (0 when only one was requested) */
+  onToken: (token: string, candidate: number) => void;
   onComplete: () => void;
   onError: (error: Error) => void;
   onMetadata?: (metadata: TokenMetadata) => void;
   onThinking?: (isThinking: boolean) => void;
-  onThoughtSummary?: (summary: string) => void;
+  onThoughtSummary?: (summary: string, candidate: number) => void;
+  onStart?: (info: { requestId: string; model: string; userMessageId?: string; assistantMessageId?: string }) => void;
+  onModel?: (model: string) => void;
+  onGrounding?: (grounding: GroundingMetadata, candidate: number) => void;
+  onFinish?: (finishReason: string, candidate: number) => void;
+  onWarning?: (message: string) => void;
+  /** Called with true when the connection dropped and the stream is being resumed, false once it is */
+  onReconnecting?: (reconnecting: boolean) => void;
+  onToolCall?: (step: ToolCallStep) => void;
+  onToolResult?: (step: Pick<ToolCallStep, "callId" | "result" | "error">) => void;
+  onCodeExecution?: (step: Pick<CodeExecutionStep, "language" | "code">, candidate: number) => void;
+  onCodeExecutionResult?: (result: Required<Pick<CodeExecutionStep, "outcome" | "output">>, candidate: number) => void;
   signal?: AbortSignal;
 }
 
+// Strips client-only fields; the same shape is sent for chats and token counts
+const toRequestMessages = (messages: Message[]) =>
+  messages.map(({ role, content, attachments, urls }) => ({
+    role,
+    content,
+    attachments: attachments?.map(({ path, name, mimeType, size }) => ({ path, name, mimeType, size })),
+    urls,
+  }));
+
+export interface TokenCountOptions {
+  messages: Message[];
+  model: string;
+  systemInstruction?: string;
+}
+
+export interface TokenCount {
+  totalTokens: number;
+  contextWindow: number;
+}
+
+export async function countTokens(options: TokenCountOptions): Promise<TokenCount> {
+  const { data, error } = await supabase.functions.invoke<TokenCount>("count-tokens", {
+    body: { ...options, messages: toRequestMessages(options.messages) },
+  });
+
+  if (error) throw error;
+  if (!data) throw new Error("Empty token count response");
+  return data;
+}
+
+export interface TextGenerationOptions {
+  prompt: string;
+  model?: string;
+  systemInstruction?: string;
+  temperature?: number;
+}
+
+export interface GeneratedText {
+  text: string;
+  model: string;
+}
+
+/** One-off generation outside any conversation; nothing is saved. */
+export async function generateText(options: TextGenerationOptions): Promise<GeneratedText> {
+  const { data, error } = await supabase.functions.invoke<GeneratedText>("generate-text", { body: options });
+
+  if (error) throw error;
+  if (!data) throw new Error("Empty generation response");
+  return data;
+}
+
+// Delays between attempts to resume a stream whose connection dropped
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000, 8000];
+// Resumes of one reply before it is given up on as cut short
+const MAX_STREAM_RESUMES = 5;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("The operation was aborted.", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+
+/** Returns the reader of an SSE response, or throws the error a failed function call reported. */
+async function openEventStream(response: Response) {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new GeminiStreamError(
+      body?.error ?? `HTTP error! status: ${response.status}`,
+      body?.code ?? "internal",
+      body?.retryable ?? false,
+      body?.retryAfter ?? (Number(response.headers.get("Retry-After")) || undefined)
+    );
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body");
+  }
+  return reader;
+}
+
 export async function streamGeminiChat(options: GeminiStreamOptions) {
   const {
     messages,
-    model = "gemini-2.5-flash",
+    model = DEFAULT_MODEL_ID,
     temperature = 0.7,
+    generation,
     jsonMode = false,
     useWebSearch = false,
+    useCodeExecution = false,
     systemInstruction,
-    urlContext,
     safetySettings,
     thinkingBudget,
+    enabledTools,
+    fallbackModels,
+    responseSchema,
+    sessionId,
+    continueMessageId,
+    parentMessageId,
     onToken,
     onComplete,
     onError,
     onMetadata,
     onThinking,
     onThoughtSummary,
+    onStart,
+    onModel,
+    onGrounding,
+    onFinish,
+    onWarning,
+    onReconnecting,
+    onToolCall,
+    onToolResult,
+    onCodeExecution,
+    onCodeExecutionResult,
     signal,
   } = options;
 
   try {
+    // Attachments are read server-side as this user, so only their token is accepted
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) {
+      throw new GeminiStreamError("Sign in to use Gemini", "unauthorized", false);
+    }
+    const headers = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${session.access_token}`,
+    };
+
     const response = await fetch(
       `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/gemini-chat`,
       {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
+        headers,
         body: JSON.stringify({
-          messages,
+          // Only the fields the model needs; thoughts and grounding stay client-side
+          messages: toRequestMessages(messages),
           model,
           temperature,
+          generation,
           jsonMode,
           useWebSearch,
+          useCodeExecution,
           thinkingBudget,
+          enabledTools,
+          fallbackModels,
+          responseSchema: jsonMode ? responseSchema ?? undefined : undefined,
           systemInstruction,
-          urlContext,
           safetySettings,
+          sessionId,
+          continueMessageId,
+          parentMessageId,
         }),
         signal,
       }
     );
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error("No response body");
-    }
-
-    const decoder = new TextDecoder();
+    let reader = await openEventStream(response);
+    let decoder = new TextDecoder();
     let buffer = "";
+    let isThinking = false;
+    let streamError: GeminiStreamError | null = null;
+    // Resuming needs the generation id from the start event and the id of the last event handled
+    let requestId: string | null = null;
+    let pendingEventId: string | null = null;
+    let lastEventId: string | null = null;
+    // The stream is over once every candidate Gemini returned finished, or on an error
+    const finishedCandidates = new Set<number>();
+    let ended = false;
+    let resumes = 0;
 
-    while (true) {
-      const { done, value } = await reader.read();
+    const setThinking = (thinking: boolean) => {
+      if (isThinking !== thinking) {
+        isThinking = thinking;
+        onThinking?.(thinking);
+      }
+    };
 
-      if (done) {
-        onComplete();
-        break;
+    // Retries with growing delays; errors that won't go away by retrying end the stream
+    const reconnect = async () => {
+      let lastError: unknown = new GeminiStreamError("Lost the connection to Gemini", "upstream_unavailable", true);
+      for (const delay of RECONNECT_DELAYS_MS) {
+        await sleep(delay, signal);
+        try {
+          const resumeResponse = await fetch(
+            `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/resume-chat-stream`,
+            {
+              method: "POST",
+              headers: lastEventId === null ? headers : { ...headers, "Last-Event-ID": lastEventId },
+              body: JSON.stringify({ requestId }),
+              signal,
+            }
+          );
+          return await openEventStream(resumeResponse);
+        } catch (error) {
+          if (signal?.aborted || (error instanceof GeminiStreamError && !error.retryable)) {
+            throw error;
+          }
+          lastError = error;
+        }
       }
+      throw lastError;
+    };
 
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split("\n");
-      buffer = lines.pop() ?? "";
+    const handleLine = (line: string) => {
+      if (line.startsWith("id: ")) {
+        pendingEventId = line.slice(4);
+        return;
+      }
+      if (!line.startsWith("data: ")) {
+        return;
+      }
+
+      const jsonStr = line.slice(6);
+      if (!jsonStr) {
+        return;
+      }
+      // An id only counts once its data line arrived, so a half-received event is replayed
+      if (pendingEventId !== null) {
+        lastEventId = pendingEventId;
+        pendingEventId = null;
+      }
 
-      for (const line of lines) {
-        if (!line.startsWith("data: ")) {
-          continue;
+      try {
+        const event = parseStreamEvent(jsonStr);
+        if (!event) {
+          console.warn("Ignoring SSE event from unknown protocol version:", jsonStr);
+          return;
         }
 
-        const jsonStr = line.slice(6);
-        if (!jsonStr) {
-          continue;
+        switch (event.type) {
+          case "start":
+            requestId = event.requestId;
+            onStart?.({
+              requestId: event.requestId,
+              model: event.model,
+              userMessageId: event.userMessageId,
+              assistantMessageId: event.assistantMessageId,
+            });
+            break;
+          case "model":
+            onModel?.(event.model);
+            break;
+          case "thought":
+            setThinking(true);
+            onThoughtSummary?.(event.text, event.candidate ?? 0);
+            break;
+          case "delta":
+            setThinking(false);
+            onToken(event.text, event.candidate ?? 0);
+            break;
+          case "grounding":
+            onGrounding?.(event.grounding, event.candidate ?? 0);
+            break;
+          case "tool_call":
+            setThinking(false);
+            onToolCall?.({ callId: event.callId, name: event.name, args: event.args });
+            break;
+          case "tool_result":
+            onToolResult?.({ callId: event.callId, result: event.result, error: event.error });
+            break;
+          case "code":
+            setThinking(false);
+            onCodeExecution?.({ language: event.language, code: event.code }, event.candidate ?? 0);
+            break;
+          case "code_result":
+            onCodeExecutionResult?.({ outcome: event.outcome, output: event.output }, event.candidate ?? 0);
+            break;
+          case "usage":
+            onMetadata?.(event.usage);
+            break;
+          case "warning":
+            onWarning?.(event.message);
+            break;
+          case "finish":
+            // An untagged finish ends the whole answer, e.g. a prompt blocked before any candidate
+            if (event.candidate !== undefined) finishedCandidates.add(event.candidate);
+            ended = event.candidate === undefined || finishedCandidates.size >= (event.candidates ?? 1);
+            onFinish?.(event.finishReason, event.candidate ?? 0);
+            break;
+          case "error":
+            ended = true;
+            streamError = new GeminiStreamError(event.message, event.code, event.retryable);
+            break;
         }
+      } catch (e) {
+        console.error("Error parsing SSE data:", e);
+      }
+    };
 
-        try {
-          const data = JSON.parse(jsonStr);
-          if (data.text) {
-            onToken(data.text);
-          }
-          if (data.metadata && onMetadata) {
-            onMetadata(data.metadata);
-          }
-          if (typeof data.thinking === "boolean" && onThinking) {
-            onThinking(data.thinking);
-          }
-          if (data.thoughtSummary && onThoughtSummary) {
-            onThoughtSummary(data.thoughtSummary);
-          }
-        } catch (e) {
-          console.error("Error parsing SSE data:", e);
+    while (true) {
+      let result: ReadableStreamReadResult<Uint8Array> | null;
+      try {
+        result = await reader.read();
+      } catch (error) {
+        if (signal?.aborted || requestId === null) {
+          throw error;
         }
+        result = null;
+      }
+
+      if (result && !result.done) {
+        buffer += decoder.decode(result.value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(handleLine);
+        continue;
+      }
+
+      // A dropped connection, or one that closed before the answer finished, picks up where it left off
+      if (requestId !== null && (result === null || !ended) && resumes < MAX_STREAM_RESUMES) {
+        onReconnecting?.(true);
+        reader = await reconnect();
+        onReconnecting?.(false);
+        decoder = new TextDecoder();
+        buffer = "";
+        resumes++;
+        continue;
+      }
+
+      setThinking(false);
+      if (streamError) {
+        throw streamError;
+      }
+      if (!ended) {
+        throw new GeminiStreamError("The reply was cut off before it finished", "upstream_unavailable", true);
       }
+      onComplete();
+      break;
     }
   } catch (error) {
     if (error instanceof Error) {
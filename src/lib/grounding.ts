@@ -0,0 +1,72 @@
+import type { GroundingChunk, GroundingMetadata } from "@/lib/events";
+
+export const CITATION_HREF_PREFIX = "#cite-";
+
+// Grounding redirects all point at this host, so the title is the only useful label
+const GROUNDING_REDIRECT_HOST = "vertexaisearch.cloud.google.com";
+
+/** Converts a UTF-8 byte offset into a UTF-16 index into `text`. */
+function byteOffsetToIndex(text: string, byteOffset: number): number {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let index = 0;
+
+  for (const char of text) {
+    if (bytes >= byteOffset) {
+      break;
+    }
+    bytes += encoder.encode(char).length;
+    index += char.length;
+  }
+
+  return index;
+}
+
+/**
+ * Appends markdown citation links (e.g. `[1](#cite-0)`) after every grounded span.
+ * The link target carries the chunk index so the renderer can resolve the source.
+ */
+export function applyCitations(content: string, grounding?: GroundingMetadata): string {
+  if (!grounding || grounding.supports.length === 0) {
+    return content;
+  }
+
+  const insertions = grounding.supports
+    .filter((support) => support.chunkIndices.length > 0)
+    .map((support) => {
+      let index = byteOffsetToIndex(content, support.endIndex);
+      // Fall back to matching the span text if the offsets no longer line up
+      if (support.text && !content.slice(0, index).endsWith(support.text)) {
+        const found = content.indexOf(support.text);
+        if (found !== -1) {
+          index = found + support.text.length;
+        }
+      }
+
+      const markers = support.chunkIndices
+        .map((chunkIndex) => `[${chunkIndex + 1}](${CITATION_HREF_PREFIX}${chunkIndex})`)
+        .join("");
+      return { index, markers };
+    })
+    .sort((a, b) => b.index - a.index);
+
+  let result = content;
+  for (const { index, markers } of insertions) {
+    result = `${result.slice(0, index)}${markers}${result.slice(index)}`;
+  }
+
+  return result;
+}
+
+export function getSourceDomain(chunk: GroundingChunk): string {
+  try {
+    const { hostname } = new URL(chunk.uri);
+    if (hostname !== GROUNDING_REDIRECT_HOST) {
+      return hostname.replace(/^www\./, "");
+    }
+  } catch {
+    // Fall through to the title
+  }
+
+  return chunk.title;
+}
@@ -0,0 +1,270 @@
+import { z } from "zod";
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "null" | "object" | "array";
+
+/** The subset of JSON Schema understood by Gemini's responseJsonSchema and by our validator. */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  /** OpenAPI-style nullability, accepted for schemas written for the older responseSchema field */
+  nullable?: boolean;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidation {
+  valid: boolean;
+  issues: SchemaIssue[];
+}
+
+export interface SchemaTemplate {
+  id: string;
+  label: string;
+  schema: JsonSchema;
+}
+
+export const SCHEMA_TEMPLATES: SchemaTemplate[] = [
+  {
+    id: "summary",
+    label: "Summary",
+    schema: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        summary: { type: "string" },
+        keyPoints: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "summary", "keyPoints"],
+    },
+  },
+  {
+    id: "classification",
+    label: "Classification",
+    schema: {
+      type: "object",
+      properties: {
+        label: { type: "string", enum: ["positive", "neutral", "negative"] },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+        reasoning: { type: "string" },
+      },
+      required: ["label", "confidence"],
+    },
+  },
+  {
+    id: "extraction",
+    label: "Entity extraction",
+    schema: {
+      type: "object",
+      properties: {
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              type: { type: "string", enum: ["person", "organization", "location", "date", "other"] },
+            },
+            required: ["name", "type"],
+          },
+        },
+      },
+      required: ["entities"],
+    },
+  },
+  {
+    id: "list",
+    label: "List of items",
+    schema: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          description: { type: "string" },
+        },
+        required: ["name"],
+      },
+    },
+  },
+];
+
+const matchesJson = (expected: unknown) => (value: unknown) =>
+  JSON.stringify(expected) === JSON.stringify(value);
+
+function typeToZod(type: JsonSchemaType, schema: JsonSchema): z.ZodType {
+  switch (type) {
+    case "string": {
+      let result = z.string();
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      if (schema.pattern) {
+        try {
+          result = result.regex(new RegExp(schema.pattern));
+        } catch {
+          // An invalid pattern is the schema author's problem, not the response's
+        }
+      }
+      return result;
+    }
+    case "number":
+    case "integer": {
+      let result = type === "integer" ? z.number().int() : z.number();
+      if (schema.minimum !== undefined) result = result.min(schema.minimum);
+      if (schema.maximum !== undefined) result = result.max(schema.maximum);
+      return result;
+    }
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    case "array": {
+      let result = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    }
+    case "object": {
+      const required = new Set(schema.required ?? []);
+      const shape: Record<string, z.ZodType> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        const value = jsonSchemaToZod(property);
+        shape[key] = required.has(key) ? value : value.optional();
+      }
+      if (schema.additionalProperties === false) {
+        return z.strictObject(shape);
+      }
+      if (typeof schema.additionalProperties === "object") {
+        return z.object(shape).catchall(jsonSchemaToZod(schema.additionalProperties));
+      }
+      return z.looseObject(shape);
+    }
+  }
+}
+
+function union(members: z.ZodType[]): z.ZodType {
+  if (members.length === 0) return z.unknown();
+  if (members.length === 1) return members[0];
+  return z.union(members as [z.ZodType, z.ZodType, ...z.ZodType[]]);
+}
+
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodType {
+  let result: z.ZodType;
+
+  if (schema.const !== undefined) {
+    result = z.unknown().refine(matchesJson(schema.const), {
+      message: `Expected ${JSON.stringify(schema.const)}`,
+    });
+  } else if (schema.enum) {
+    const options = schema.enum;
+    result = z.unknown().refine((value) => options.some((option) => matchesJson(option)(value)), {
+      message: `Expected one of ${options.map((option) => JSON.stringify(option)).join(", ")}`,
+    });
+  } else if (schema.anyOf || schema.oneOf) {
+    result = union((schema.anyOf ?? schema.oneOf ?? []).map(jsonSchemaToZod));
+  } else if (Array.isArray(schema.type)) {
+    result = union(schema.type.map((type) => typeToZod(type, schema)));
+  } else if (schema.type) {
+    result = typeToZod(schema.type, schema);
+  } else {
+    result = z.unknown();
+  }
+
+  return schema.nullable ? result.nullable() : result;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) return "(root)";
+  return path
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : `${index === 0 ? "" : "."}${String(segment)}`
+    )
+    .join("");
+}
+
+/** Checks a model response against the schema it was generated with. */
+export function validateJsonResponse(content: string, schema: JsonSchema): SchemaValidation {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return {
+      valid: false,
+      issues: [{ path: "(root)", message: error instanceof Error ? error.message : "Invalid JSON" }],
+    };
+  }
+
+  const result = jsonSchemaToZod(schema).safeParse(value);
+  if (result.success) {
+    return { valid: true, issues: [] };
+  }
+  return {
+    valid: false,
+    issues: result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message })),
+  };
+}
+
+/** Builds a schema that describes an example value; every key seen is required. */
+export function inferSchemaFromExample(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: "null" };
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0
+      ? { type: "array", items: inferSchemaFromExample(value[0]) }
+      : { type: "array" };
+  }
+  switch (typeof value) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "object": {
+      const entries = Object.entries(value as Record<string, unknown>);
+      return {
+        type: "object",
+        properties: Object.fromEntries(entries.map(([key, entry]) => [key, inferSchemaFromExample(entry)])),
+        required: entries.map(([key]) => key),
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/** Parses editor text into a schema, or explains why it can't be used. */
+export function parseJsonSchema(text: string): { schema: JsonSchema | null; error: string | null } {
+  if (!text.trim()) {
+    return { schema: null, error: null };
+  }
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { schema: null, error: "Schema must be a JSON object" };
+    }
+    return { schema: parsed as JsonSchema, error: null };
+  } catch (error) {
+    return { schema: null, error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+}
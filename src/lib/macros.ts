@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { commandParser, type CommandArgs } from "@/lib/commands";
+
+/** Turn settings a macro applies along with its prompt; unset ones keep the chat's own */
+export interface MacroSettings {
+  model?: string;
+  temperature?: number;
+  systemInstruction?: string;
+}
+
+export interface PromptMacro {
+  id: string;
+  /** Typed as /name in the composer */
+  name: string;
+  description: string | null;
+  /** Prompt text with {{variable}} placeholders */
+  template: string;
+  settings: MacroSettings;
+}
+
+/** Same rule as the prompt_macros.name check constraint */
+export const MACRO_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Names of the {{variables}} in a template, each once, in order of appearance. */
+export function findTemplateVariables(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+}
+
+/** Replaces the {{variables}} with their values; ones without a value are left in place. */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+// Settings are free-form JSON in the table, so only well-typed fields are kept
+function readSettings(settings: Json): MacroSettings {
+  if (!settings || typeof settings !== "object" || Array.isArray(settings)) return {};
+  const { model, temperature, systemInstruction } = settings;
+  return {
+    ...(typeof model === "string" && model && { model }),
+    ...(typeof temperature === "number" && { temperature }),
+    ...(typeof systemInstruction === "string" && systemInstruction && { systemInstruction }),
+  };
+}
+
+export async function loadPromptMacros(): Promise<PromptMacro[]> {
+  const { data, error } = await supabase
+    .from("prompt_macros")
+    .select("id, name, description, template, settings")
+    .order("name");
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, settings: readSettings(row.settings) }));
+}
+
+// Triggers registered for the current user's macros, replaced wholesale on every registration
+const registeredTriggers = new Set<string>();
+
+/** Whether /name is taken by a built-in command, which a macro cannot replace. */
+export function isBuiltInCommandName(name: string): boolean {
+  const trigger = `/${name}`;
+  return !registeredTriggers.has(trigger) && commandParser.getCommand(trigger) !== undefined;
+}
+
+const excerpt = (text: string) => {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > 60 ? `${line.slice(0, 60)}…` : line;
+};
+
+/**
+ * Makes each macro available as a /name command whose {{variables}} can be given inline as
+ * name=value; the chat asks for the rest. Macros never shadow the built-in commands.
+ */
+export function registerPromptMacros(macros: PromptMacro[]) {
+  registeredTriggers.forEach((trigger) => commandParser.unregisterCommand(trigger));
+  registeredTriggers.clear();
+
+  for (const macro of macros) {
+    const trigger = `/${macro.name}`;
+    if (isBuiltInCommandName(macro.name)) continue;
+
+    const variables = findTemplateVariables(macro.template);
+    commandParser.registerCommand(trigger, {
+      name: macro.name,
+      description: macro.description || excerpt(macro.template),
+      examples: variables.length > 0 ? [`${trigger} ${variables[0]}="…"`] : [trigger],
+      args: variables.map((variable) => ({ name: variable, type: "string", named: true })),
+      execute: (args: CommandArgs) => ({
+        ...macro.settings,
+        template: {
+          name: macro.name,
+          text: macro.template,
+          values: Object.fromEntries(Object.entries(args).map(([name, value]) => [name, String(value)])),
+        },
+      }),
+    });
+    registeredTriggers.add(trigger);
+  }
+}
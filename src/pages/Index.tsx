@@ -6,16 +6,23 @@ const Index = () => {
   return (
     <AuthWrapper>
       <Layout>
-        {({ model, temperature, jsonMode, useWebSearch, systemInstruction, urlContext, thinkingBudget, safetySettings, sessionId, onSessionCreated, onNewSession }) => (
+        {({ model, temperature, generationParams, jsonMode, useWebSearch, useCodeExecution, systemInstruction, urlContext, thinkingBudget, safetySettings, enabledTools, fallbackModels, responseSchema, contextSettings, onContextSettingsChange, sessionId, onSessionCreated, onNewSession }) => (
           <ChatInterface 
             model={model} 
             temperature={temperature} 
+            generationParams={generationParams}
             jsonMode={jsonMode}
             useWebSearch={useWebSearch}
+            useCodeExecution={useCodeExecution}
             systemInstruction={systemInstruction}
             urlContext={urlContext}
             thinkingBudget={thinkingBudget}
             safetySettings={safetySettings}
+            enabledTools={enabledTools}
+            fallbackModels={fallbackModels}
+            responseSchema={responseSchema}
+            contextSettings={contextSettings}
+            onContextSettingsChange={onContextSettingsChange}
             sessionId={sessionId}
             onSessionCreated={onSessionCreated}
             onNewSession={onNewSession}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import { isAttachmentSupported, isTextAttachment } from "./attachments.ts";
+import type { ModelInfo } from "./models.ts";
+
+/** Reference to a file in the chat-attachments bucket, as sent by the client */
+export interface AttachmentRef {
+  path: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes; recorded when gemini-chat saves the message the file was sent with */
+  size?: number;
+}
+
+type AttachmentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } };
+
+const STORAGE_BUCKET = 'chat-attachments';
+const GEMINI_UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const GEMINI_FILES_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Keeps a single document from crowding out the rest of the context window
+const MAX_TEXT_ATTACHMENT_CHARS = 200_000;
+// Anything bigger goes through the Files API once instead of being inlined every turn
+const MAX_INLINE_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+// Don't reuse an uploaded file this close to its expiry
+const FILE_EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+const FILE_ACTIVE_POLL_ATTEMPTS = 10;
+const FILE_ACTIVE_POLL_INTERVAL_MS = 1000;
+
+interface GeminiFile {
+  name: string;
+  uri: string;
+  state?: 'PROCESSING' | 'ACTIVE' | 'FAILED';
+  expirationTime?: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function uploadToGeminiFiles(apiKey: string, ref: AttachmentRef, bytes: Uint8Array): Promise<GeminiFile> {
+  const start = await fetch(`${GEMINI_UPLOAD_URL}?key=${apiKey}`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(bytes.byteLength),
+      'X-Goog-Upload-Header-Content-Type': ref.mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { display_name: ref.name } }),
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!start.ok || !uploadUrl) {
+    throw new Error(`Files API upload could not start (status ${start.status})`);
+  }
+
+  const upload = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Offset': '0',
+      'X-Goog-Upload-Command': 'upload, finalize',
+    },
+    body: bytes,
+  });
+  if (!upload.ok) {
+    throw new Error(`Files API upload failed (status ${upload.status})`);
+  }
+
+  let { file } = (await upload.json()) as { file: GeminiFile };
+  for (let attempt = 0; file.state === 'PROCESSING' && attempt < FILE_ACTIVE_POLL_ATTEMPTS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, FILE_ACTIVE_POLL_INTERVAL_MS));
+    const status = await fetch(`${GEMINI_FILES_URL}/${file.name}?key=${apiKey}`);
+    file = (await status.json()) as GeminiFile;
+  }
+
+  if (file.state !== 'ACTIVE') {
+    throw new Error(`Uploaded file is not ready (state ${file.state ?? 'unknown'})`);
+  }
+  return file;
+}
+
+/**
+ * Resolves attachment references into Gemini parts using the caller's Supabase
+ * client, so storage RLS decides what the user may read. Results are cached for
+ * the lifetime of one request; large binaries are uploaded to the Gemini Files
+ * API once and the file URI is remembered on the message_attachments row.
+ */
+export function createAttachmentResolver(supabase: SupabaseClient, apiKey: string, model: ModelInfo) {
+  const cache = new Map<string, Promise<AttachmentPart | null>>();
+
+  const resolveOne = async (ref: AttachmentRef, warn: (message: string) => void): Promise<AttachmentPart | null> => {
+    const { name, mimeType, path } = ref;
+
+    if (!isAttachmentSupported(model, mimeType)) {
+      warn(`${model.label} cannot read ${mimeType} files, so ${name} was skipped`);
+      return null;
+    }
+
+    if (!isTextAttachment(mimeType)) {
+      // The same file can be attached to several messages, e.g. an edited one and its original
+      const { data: record, error: recordError } = await supabase
+        .from('message_attachments')
+        .select('gemini_file_uri, gemini_file_expires_at')
+        .eq('file_path', path)
+        .not('gemini_file_uri', 'is', null)
+        .order('gemini_file_expires_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (recordError) {
+        console.error(`Failed to look up the Gemini file for ${path}:`, recordError);
+      }
+
+      const expiresAt = record?.gemini_file_expires_at ? Date.parse(record.gemini_file_expires_at) : 0;
+      if (record?.gemini_file_uri && expiresAt - Date.now() > FILE_EXPIRY_MARGIN_MS) {
+        return { fileData: { mimeType, fileUri: record.gemini_file_uri } };
+      }
+    }
+
+    const { data: blob, error } = await supabase.storage.from(STORAGE_BUCKET).download(path);
+    if (error || !blob) {
+      console.error(`Error downloading attachment ${path}:`, error);
+      warn(`${name} could not be loaded and was skipped`);
+      return null;
+    }
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+
+    if (isTextAttachment(mimeType)) {
+      let text = new TextDecoder().decode(bytes);
+      if (text.length > MAX_TEXT_ATTACHMENT_CHARS) {
+        warn(`${name} was truncated to the first ${MAX_TEXT_ATTACHMENT_CHARS.toLocaleString()} characters`);
+        text = `${text.slice(0, MAX_TEXT_ATTACHMENT_CHARS)}\n[... truncated]`;
+      }
+      return { text: `[Attachment: ${name}]\n${text}\n[End of ${name}]` };
+    }
+
+    if (bytes.byteLength <= MAX_INLINE_ATTACHMENT_BYTES) {
+      return { inlineData: { mimeType, data: toBase64(bytes) } };
+    }
+
+    try {
+      const file = await uploadToGeminiFiles(apiKey, ref, bytes);
+      const { error: updateError } = await supabase
+        .from('message_attachments')
+        .update({ gemini_file_uri: file.uri, gemini_file_expires_at: file.expirationTime ?? null })
+        .eq('file_path', path);
+      if (updateError) {
+        console.error(`Failed to remember Gemini file for ${path}:`, updateError);
+      }
+      return { fileData: { mimeType, fileUri: file.uri } };
+    } catch (uploadError) {
+      console.error(`Files API upload failed for ${path}:`, uploadError);
+      warn(`${name} could not be uploaded to Gemini and was skipped`);
+      return null;
+    }
+  };
+
+  return async (refs: AttachmentRef[], warn: (message: string) => void): Promise<AttachmentPart[]> => {
+    const parts = await Promise.all(
+      refs.map((ref) => {
+        let part = cache.get(ref.path);
+        if (!part) {
+          part = resolveOne(ref, warn);
+          cache.set(ref.path, part);
+        }
+        return part;
+      })
+    );
+    return parts.filter((part): part is AttachmentPart => part !== null);
+  };
+}
@@ -0,0 +1,39 @@
+// Attachment type rules shared by the composer and gemini-chat.
+
+import type { ModelInfo } from "./models.ts";
+
+/** Files decoded server-side into labeled text parts instead of being sent as binary */
+export const TEXT_ATTACHMENT_MIME_TYPES = ["text/plain", "text/markdown", "text/csv", "application/json"];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+/**
+ * Browsers report an empty or platform-specific type for some files (".md" is often "",
+ * ".csv" is "application/vnd.ms-excel" on Windows), so prefer the extension when we know it.
+ */
+export function resolveMimeType(fileName: string, reportedType: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_MIME_TYPES[extension] ?? (reportedType || "application/octet-stream");
+}
+
+export function isTextAttachment(mimeType: string): boolean {
+  return TEXT_ATTACHMENT_MIME_TYPES.includes(mimeType);
+}
+
+export function isAttachmentSupported(model: ModelInfo, mimeType: string): boolean {
+  return isTextAttachment(mimeType) || model.inputMimeTypes.includes(mimeType);
+}
@@ -0,0 +1,35 @@
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+
+export interface AuthContext {
+  user: User;
+  /** Client that acts as the caller, so RLS applies to everything it reads */
+  supabase: SupabaseClient;
+}
+
+/**
+ * Verifies the bearer token on the request. The platform's verify_jwt check
+ * also accepts the anon key, so this makes sure a real user is signed in.
+ */
+export async function authenticate(req: Request): Promise<AuthContext | null> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: authorization } } }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser(authorization.slice('Bearer '.length));
+  if (error || !user) {
+    return null;
+  }
+
+  return { user, supabase };
+}
+
+/** Service-role client for tables users must not write to directly; bypasses RLS. */
+export const createAdminClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
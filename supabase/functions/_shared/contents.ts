@@ -0,0 +1,70 @@
+import type { AttachmentRef } from "./attachment-parts.ts";
+import { formatUrlContent, type UrlFetchResult } from "./url-context.ts";
+
+// Request and Gemini content shapes shared by gemini-chat and count-tokens, so a
+// token count covers exactly what a chat request would send.
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  attachments?: AttachmentRef[];
+  /** URLs whose content is attached to this turn */
+  urls?: string[];
+}
+
+export type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } }
+  | { functionCall: { name: string; args?: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } }
+  | { executableCode: { language: string; code: string } }
+  | { codeExecutionResult: { outcome: string; output?: string } };
+
+export interface GeminiMessage {
+  role: "model" | "user";
+  parts: GeminiPart[];
+}
+
+type ResolveAttachments = (refs: AttachmentRef[], warn: (message: string) => void) => Promise<GeminiPart[]>;
+
+/** Maps chat messages to Gemini contents; only the newest message reports attachment and URL problems. */
+export function buildContents(
+  messages: ChatMessage[],
+  urlContents: Map<string, UrlFetchResult>,
+  resolveAttachments: ResolveAttachments,
+  warn: (message: string) => void
+): Promise<GeminiMessage[]> {
+  return Promise.all(messages.map(async (msg, index) => {
+    const parts: GeminiPart[] = [];
+
+    const isNewest = index === messages.length - 1;
+    const pages = (msg.urls ?? []).flatMap((url) => urlContents.get(url) ?? []);
+    if (isNewest) {
+      for (const page of pages) {
+        if ('error' in page) warn(`Could not read ${page.url}: ${page.error}`);
+      }
+    }
+
+    // URL context travels with the turn it was added in
+    if (msg.role === 'user' && pages.length > 0) {
+      const urlContextText = pages.map(formatUrlContent).join('\n\n');
+      parts.push({ text: `[URL Context Information]\n${urlContextText}\n\n[User Message]\n${msg.content}` });
+    } else if (msg.content) {
+      parts.push({ text: msg.content });
+    }
+
+    // History attachments were already warned about on their own turn
+    if (msg.attachments && msg.attachments.length > 0) {
+      const warnForMessage = isNewest ? warn : () => {};
+      parts.push(...await resolveAttachments(msg.attachments, warnForMessage));
+    }
+
+    return {
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts,
+    };
+  }));
+}
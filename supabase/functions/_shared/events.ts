@@ -0,0 +1,108 @@
+// Server-sent event protocol spoken by gemini-chat and parsed by streamGeminiChat.
+// Shared with the web client via src/lib/events.ts. Bump the version on breaking changes.
+
+export const STREAM_PROTOCOL_VERSION = 1;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GroundingChunk {
+  uri: string;
+  title: string;
+}
+
+export interface GroundingSupport {
+  /** UTF-8 byte offsets into the answer text, as reported by the API */
+  startIndex: number;
+  endIndex: number;
+  text: string;
+  /** Indices into GroundingMetadata.chunks */
+  chunkIndices: number[];
+}
+
+export interface GroundingMetadata {
+  searchQueries: string[];
+  chunks: GroundingChunk[];
+  supports: GroundingSupport[];
+}
+
+export interface ToolCallStep {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+export type CodeExecutionOutcome =
+  | "OUTCOME_OK"
+  | "OUTCOME_FAILED"
+  | "OUTCOME_DEADLINE_EXCEEDED"
+  | "OUTCOME_UNSPECIFIED";
+
+export interface CodeExecutionStep {
+  language: string;
+  code: string;
+  /** Length of the answer text when the code was emitted, so it renders in place */
+  offset: number;
+  /** Missing until the result arrives */
+  outcome?: CodeExecutionOutcome;
+  output?: string;
+}
+
+/** How far the generation of a saved assistant message got */
+export type MessageStatus = "streaming" | "complete" | "stopped" | "interrupted" | "failed";
+
+export type StreamErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "rate_limited"
+  | "upstream_unavailable"
+  | "upstream_error"
+  | "internal";
+
+export type StreamEvent =
+  // requestId also identifies the generation when resuming it. Carries the ids of the
+  // saved user and assistant messages when the request named a session.
+  | { type: "start"; requestId: string; model: string; userMessageId?: string; assistantMessageId?: string }
+  // Sent before the first output; differs from start.model when a fallback answered
+  | { type: "model"; model: string }
+  // Events that belong to one candidate carry its index when more than one was requested
+  | { type: "delta"; text: string; candidate?: number }
+  | { type: "thought"; text: string; candidate?: number }
+  | { type: "grounding"; grounding: GroundingMetadata; candidate?: number }
+  | { type: "tool_call"; callId: string; name: string; args: Record<string, unknown> }
+  | { type: "tool_result"; callId: string; name: string; result?: unknown; error?: string }
+  // Code the model ran with the code execution tool, followed by what it printed
+  | { type: "code"; language: string; code: string; candidate?: number }
+  | { type: "code_result"; outcome: CodeExecutionOutcome; output: string; candidate?: number }
+  | { type: "usage"; usage: TokenUsage }
+  | { type: "warning"; message: string }
+  // Multi-candidate answers finish once per candidate, each carrying how many candidates Gemini returned
+  | { type: "finish"; finishReason: string; blockReason?: string; candidate?: number; candidates?: number }
+  | { type: "error"; code: StreamErrorCode; message: string; retryable: boolean };
+
+export type StreamEnvelope = StreamEvent & { v: typeof STREAM_PROTOCOL_VERSION };
+
+/**
+ * Encodes one SSE message. Buffered events carry their sequence number as the SSE id,
+ * which a reconnecting client sends back as Last-Event-ID.
+ */
+export function encodeStreamEvent(event: StreamEvent, id?: number): string {
+  const envelope: StreamEnvelope = { v: STREAM_PROTOCOL_VERSION, ...event };
+  return `${id === undefined ? "" : `id: ${id}\n`}data: ${JSON.stringify(envelope)}\n\n`;
+}
+
+/** Returns null for payloads from a different protocol version or of unknown shape. */
+export function parseStreamEvent(payload: string): StreamEvent | null {
+  const data = JSON.parse(payload) as Partial<StreamEnvelope>;
+  if (data?.v !== STREAM_PROTOCOL_VERSION || typeof data.type !== "string") {
+    return null;
+  }
+
+  const { v: _version, ...event } = data as StreamEnvelope;
+  return event as StreamEvent;
+}
@@ -0,0 +1,39 @@
+import type { GeminiPart } from "./contents.ts";
+
+// One-shot Gemini calls made outside gemini-chat: commands, summaries, chat names and token
+// counts. With GEMINI_PROVIDER=mock they answer locally, like gemini-chat's mock provider.
+
+export const isMockProvider = () => Deno.env.get('GEMINI_PROVIDER') === 'mock';
+
+// Roughly four characters per token, which is close enough for usage displays and limits
+export const estimateTokens = (parts: GeminiPart[]) =>
+  Math.ceil(parts.reduce((sum, part) => sum + JSON.stringify(part).length, 0) / 4);
+
+/**
+ * Calls generateContent and returns the raw response. In mock mode nothing is sent and the
+ * response carries mockText as the only candidate, so callers parse both the same way.
+ */
+export async function generateContent(model: string, body: Record<string, unknown>, mockText: string): Promise<Response> {
+  if (isMockProvider()) {
+    const contents = (body.contents ?? []) as Array<{ parts: GeminiPart[] }>;
+    const promptTokenCount = estimateTokens(contents.flatMap((content) => content.parts));
+    const candidatesTokenCount = estimateTokens([{ text: mockText }]);
+    return Response.json({
+      candidates: [{ index: 0, content: { role: 'model', parts: [{ text: mockText }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+    });
+  }
+
+  const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+  if (!GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
+  return fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${GEMINI_API_KEY}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }
+  );
+}
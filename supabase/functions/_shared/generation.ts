@@ -0,0 +1,86 @@
+// Sampling parameters beyond temperature. Shared with the web client via src/lib/generation.ts
+// so the settings sheet and gemini-chat apply the same limits.
+
+import type { ModelInfo } from "./models.ts";
+
+export interface GenerationParams {
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+  /** Number of alternative responses to sample, each streamed on its own channel */
+  candidateCount?: number;
+}
+
+export type GenerationParamErrors = Partial<Record<keyof GenerationParams, string>>;
+
+/** Output budget used when the user has not set one */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+export const MAX_STOP_SEQUENCES = 5;
+export const MAX_CANDIDATES = 4;
+const PENALTY_RANGE = { min: -2, max: 2 };
+
+/** Returns one message per invalid field; an empty object means the params can be sent. */
+export function validateGenerationParams(model: ModelInfo, params: GenerationParams): GenerationParamErrors {
+  const errors: GenerationParamErrors = {};
+  const { topP, topK, maxOutputTokens, stopSequences, presencePenalty, frequencyPenalty, seed, candidateCount } = params;
+
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) {
+    errors.topP = "Top P must be between 0 and 1";
+  }
+  if (topK !== undefined && !(Number.isInteger(topK) && topK >= 1 && topK <= model.maxTopK)) {
+    errors.topK = `Top K must be a whole number from 1 to ${model.maxTopK}`;
+  }
+  if (
+    maxOutputTokens !== undefined &&
+    !(Number.isInteger(maxOutputTokens) && maxOutputTokens >= 1 && maxOutputTokens <= model.maxOutputTokens)
+  ) {
+    errors.maxOutputTokens = `Max output tokens must be from 1 to ${model.maxOutputTokens.toLocaleString()}`;
+  }
+  if (stopSequences && stopSequences.length > MAX_STOP_SEQUENCES) {
+    errors.stopSequences = `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed`;
+  } else if (stopSequences?.some((sequence) => sequence.length === 0)) {
+    errors.stopSequences = "Stop sequences cannot be empty";
+  }
+  for (const key of ["presencePenalty", "frequencyPenalty"] as const) {
+    const value = key === "presencePenalty" ? presencePenalty : frequencyPenalty;
+    if (value === undefined) {
+      continue;
+    }
+    if (!model.supportsPenalties) {
+      errors[key] = "Not supported by this model";
+    } else if (!(value >= PENALTY_RANGE.min && value < PENALTY_RANGE.max)) {
+      errors[key] = `Must be from ${PENALTY_RANGE.min} up to (but not including) ${PENALTY_RANGE.max}`;
+    }
+  }
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    errors.seed = "Seed must be a whole number";
+  }
+  if (candidateCount !== undefined && !(Number.isInteger(candidateCount) && candidateCount >= 1 && candidateCount <= MAX_CANDIDATES)) {
+    errors.candidateCount = `Candidates must be from 1 to ${MAX_CANDIDATES}`;
+  }
+
+  return errors;
+}
+
+/**
+ * Maps params onto generationConfig fields for a model. Values the model can't
+ * take are clamped or dropped, which matters when a fallback model answers.
+ */
+export function toGenerationConfig(model: ModelInfo, params: GenerationParams) {
+  const { topP, topK, maxOutputTokens, stopSequences, presencePenalty, frequencyPenalty, seed, candidateCount } = params;
+
+  return {
+    maxOutputTokens: Math.min(maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS, model.maxOutputTokens),
+    ...(topP !== undefined && { topP }),
+    ...(topK !== undefined && { topK: Math.min(topK, model.maxTopK) }),
+    ...(stopSequences && stopSequences.length > 0 && { stopSequences }),
+    ...(model.supportsPenalties && presencePenalty !== undefined && { presencePenalty }),
+    ...(model.supportsPenalties && frequencyPenalty !== undefined && { frequencyPenalty }),
+    ...(seed !== undefined && { seed }),
+    ...(candidateCount !== undefined && candidateCount > 1 && { candidateCount }),
+  };
+}
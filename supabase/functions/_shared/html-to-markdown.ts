@@ -0,0 +1,206 @@
+import { DOMParser, type Element, type HTMLDocument, type Node } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// Reduces a web page to the Markdown of its main content: headings, paragraphs,
+// lists, links, tables and code survive; navigation, scripts and chrome do not.
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Never content, wherever they appear
+const NOISE_SELECTOR = 'script, style, noscript, template, iframe, object, svg, canvas, form, button, select, [hidden], [aria-hidden="true"]';
+// Page chrome around the content; only stripped when no main element was found
+const CHROME_SELECTOR = 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]';
+const MAIN_SELECTOR = 'article, main, [role="main"]';
+const MIN_MAIN_TEXT_LENGTH = 200;
+
+export interface ExtractedPage {
+  title: string;
+  markdown: string;
+}
+
+interface RenderContext {
+  baseUrl: string;
+  listDepth: number;
+}
+
+const isElement = (node: Node): node is Element => node.nodeType === ELEMENT_NODE;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+const block = (text: string) => (text.trim() ? `\n\n${text.trim()}\n\n` : '');
+
+function resolveHref(href: string | null, baseUrl: string): string | null {
+  if (!href || href.startsWith('#')) return null;
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'mailto:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function renderChildren(node: Node, context: RenderContext): string {
+  let output = '';
+  for (const child of node.childNodes) {
+    output += renderNode(child, context);
+  }
+  return output;
+}
+
+/** Renders inline content on a single line, as needed inside headings and table cells. */
+const renderInline = (node: Node, context: RenderContext) =>
+  collapseWhitespace(renderChildren(node, context)).trim();
+
+function renderList(element: Element, context: RenderContext, ordered: boolean): string {
+  const indent = '  '.repeat(context.listDepth);
+  const nested = { ...context, listDepth: context.listDepth + 1 };
+  const items = [...element.children].filter((child) => child.tagName === 'LI');
+
+  const lines = items.map((item, index) => {
+    const marker = ordered ? `${index + 1}.` : '-';
+    const body = renderChildren(item, nested)
+      .trim()
+      .replace(/\n{2,}/g, '\n')
+      .replace(/\n(?!\s*(?:-|\d+\.) )/g, `\n${indent}  `);
+    return `${indent}${marker} ${body}`;
+  });
+
+  // Nested lists sit directly under their parent item
+  return context.listDepth > 0 ? `\n${lines.join('\n')}` : block(lines.join('\n'));
+}
+
+function renderTable(table: Element, context: RenderContext): string {
+  const rows = [...table.querySelectorAll('tr')]
+    .map((row) =>
+      [...(row as Element).children]
+        .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+        .map((cell) => renderInline(cell, context).replace(/\|/g, '\\|'))
+    )
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((cells) => cells.length));
+  const pad = (cells: string[]) => [...cells, ...Array(width - cells.length).fill('')];
+  const line = (cells: string[]) => `| ${pad(cells).join(' | ')} |`;
+
+  const [header, ...body] = rows;
+  return block([line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n'));
+}
+
+function renderNode(node: Node, context: RenderContext): string {
+  if (node.nodeType === TEXT_NODE) {
+    return collapseWhitespace(node.textContent ?? '');
+  }
+  if (!isElement(node)) {
+    return '';
+  }
+
+  const tag = node.tagName;
+  switch (tag) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = renderInline(node, context);
+      return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : '';
+    }
+    case 'P':
+    case 'DIV':
+    case 'SECTION':
+    case 'ARTICLE':
+    case 'MAIN':
+    case 'HEADER':
+    case 'FOOTER':
+    case 'FIGURE':
+    case 'FIGCAPTION':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+      return block(renderChildren(node, context));
+    case 'BR':
+      return '\n';
+    case 'HR':
+      return '\n\n---\n\n';
+    case 'A': {
+      const text = renderInline(node, context);
+      const href = resolveHref(node.getAttribute('href'), context.baseUrl);
+      return href && text ? `[${text}](${href})` : text;
+    }
+    case 'STRONG':
+    case 'B': {
+      const text = renderInline(node, context);
+      return text ? `**${text}**` : '';
+    }
+    case 'EM':
+    case 'I': {
+      const text = renderInline(node, context);
+      return text ? `*${text}*` : '';
+    }
+    case 'CODE': {
+      const code = (node.textContent ?? '').trim();
+      return code ? `\`${code}\`` : '';
+    }
+    case 'PRE': {
+      const language = /language-(\w+)/.exec(node.querySelector('code')?.className ?? '')?.[1] ?? '';
+      const code = (node.textContent ?? '').replace(/\n+$/, '');
+      return code.trim() ? `\n\n\`\`\`${language}\n${code}\n\`\`\`\n\n` : '';
+    }
+    case 'BLOCKQUOTE': {
+      const text = renderChildren(node, context).trim();
+      return text ? block(text.split('\n').map((line) => `> ${line}`).join('\n')) : '';
+    }
+    case 'UL':
+    case 'OL':
+      return renderList(node, context, tag === 'OL');
+    case 'TABLE':
+      return renderTable(node, context);
+    case 'IMG':
+      return '';
+    default:
+      return renderChildren(node, context);
+  }
+}
+
+/** Picks the largest article/main element, falling back to the chrome-stripped body. */
+function findMainElement(document: HTMLDocument): Element | null {
+  const candidates = [...document.querySelectorAll(MAIN_SELECTOR)] as Element[];
+  const best = candidates
+    .map((element) => ({ element, length: (element.textContent ?? '').trim().length }))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (best && best.length >= MIN_MAIN_TEXT_LENGTH) {
+    for (const element of best.element.querySelectorAll('nav, aside')) {
+      (element as Element).remove();
+    }
+    return best.element;
+  }
+
+  for (const element of document.querySelectorAll(CHROME_SELECTOR)) {
+    (element as Element).remove();
+  }
+  return document.body;
+}
+
+export function extractMainContent(html: string, baseUrl: string): ExtractedPage {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document) {
+    return { title: '', markdown: '' };
+  }
+
+  const title = collapseWhitespace(document.querySelector('title')?.textContent ?? '').trim();
+  for (const element of document.querySelectorAll(NOISE_SELECTOR)) {
+    (element as Element).remove();
+  }
+
+  const main = findMainElement(document);
+  const markdown = main
+    ? renderNode(main, { baseUrl, listDepth: 0 })
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+    : '';
+
+  return { title, markdown };
+}
@@ -0,0 +1,25 @@
+import type { StreamErrorCode } from "./events.ts";
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, last-event-id',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+export function errorResponse(
+  status: number,
+  code: StreamErrorCode,
+  message: string,
+  options: { retryable?: boolean; retryAfter?: number } = {}
+) {
+  const { retryable = false, retryAfter } = options;
+  const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (retryAfter !== undefined) {
+    headers['Retry-After'] = String(retryAfter);
+  }
+
+  return new Response(
+    JSON.stringify({ error: message, code, retryable, retryAfter }),
+    { status, headers }
+  );
+}
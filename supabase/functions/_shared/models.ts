@@ -0,0 +1,134 @@
+// Shared between the gemini-chat edge function and the web client (via src/lib/models.ts).
+// Keep this file free of Deno- or browser-only APIs.
+
+export interface ThinkingBudgetRange {
+  min: number;
+  max: number;
+  /** Whether a budget of 0 turns thinking off entirely */
+  canDisable: boolean;
+}
+
+export interface ModelInfo {
+  /** Identifier sent to the Gemini API */
+  id: string;
+  label: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** null when the model does not support thinking */
+  thinking: ThinkingBudgetRange | null;
+  inputMimeTypes: string[];
+  supportsSearch: boolean;
+  supportsJsonMode: boolean;
+  supportsTools: boolean;
+  /** Whether the model can run Python through the code execution tool */
+  supportsCodeExecution: boolean;
+  /** Upper bound for topK sampling */
+  maxTopK: number;
+  /** Whether presencePenalty/frequencyPenalty are accepted */
+  supportsPenalties: boolean;
+}
+
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"];
+const DOCUMENT_MIME_TYPES = ["application/pdf", "text/plain"];
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { min: 128, max: 32_768, canDisable: false },
+    inputMimeTypes: [...IMAGE_MIME_TYPES, ...DOCUMENT_MIME_TYPES],
+    supportsSearch: true,
+    supportsJsonMode: true,
+    supportsTools: true,
+    supportsCodeExecution: true,
+    maxTopK: 64,
+    supportsPenalties: false,
+  },
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { min: 1, max: 24_576, canDisable: true },
+    inputMimeTypes: [...IMAGE_MIME_TYPES, ...DOCUMENT_MIME_TYPES],
+    supportsSearch: true,
+    supportsJsonMode: true,
+    supportsTools: true,
+    supportsCodeExecution: true,
+    maxTopK: 64,
+    supportsPenalties: true,
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    label: "Gemini 2.5 Flash Lite",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    thinking: { min: 512, max: 24_576, canDisable: true },
+    inputMimeTypes: [...IMAGE_MIME_TYPES, ...DOCUMENT_MIME_TYPES],
+    supportsSearch: true,
+    supportsJsonMode: true,
+    supportsTools: true,
+    supportsCodeExecution: true,
+    maxTopK: 64,
+    supportsPenalties: false,
+  },
+  {
+    id: "gemini-2.0-flash",
+    label: "Gemini 2.0 Flash",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8_192,
+    thinking: null,
+    inputMimeTypes: [...IMAGE_MIME_TYPES, ...DOCUMENT_MIME_TYPES],
+    supportsSearch: true,
+    supportsJsonMode: true,
+    supportsTools: true,
+    supportsCodeExecution: true,
+    maxTopK: 40,
+    supportsPenalties: true,
+  },
+  {
+    id: "gemini-2.0-flash-lite",
+    label: "Gemini 2.0 Flash Lite",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8_192,
+    thinking: null,
+    inputMimeTypes: [...IMAGE_MIME_TYPES, ...DOCUMENT_MIME_TYPES],
+    supportsSearch: false,
+    supportsJsonMode: true,
+    supportsTools: true,
+    supportsCodeExecution: false,
+    maxTopK: 40,
+    supportsPenalties: false,
+  },
+];
+
+export const DEFAULT_MODEL_ID = "gemini-2.5-flash";
+
+export function getModelInfo(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+/** Display label for a model id, falling back to the raw id for retired models. */
+export function getModelLabel(id: string): string {
+  return getModelInfo(id)?.label ?? id;
+}
+
+/**
+ * Clamps a requested budget into the model's range. Returns undefined when the
+ * model cannot think or no budget was requested, so callers can leave
+ * thinkingConfig out of the request.
+ */
+export function resolveThinkingBudget(model: ModelInfo, requested?: number): number | undefined {
+  if (!model.thinking || requested === undefined) {
+    return undefined;
+  }
+
+  const { min, max, canDisable } = model.thinking;
+  if (requested <= 0 && canDisable) {
+    return 0;
+  }
+
+  return Math.min(max, Math.max(min, requested));
+}
@@ -0,0 +1,56 @@
+import { createAdminClient } from "./auth.ts";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  /** Row to attach token usage to once the request completes */
+  usageId: string | null;
+  limitType: 'requests' | 'tokens' | null;
+}
+
+const readLimit = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Usage rows must not be writable by users, so these calls run with the service role
+
+/** Records one request for the user, or reports how long to wait if a limit is reached. */
+export async function consumeRateLimit(userId: string, functionName: string): Promise<RateLimitResult> {
+  const { data, error } = await createAdminClient()
+    .rpc('consume_rate_limit', {
+      p_user_id: userId,
+      p_function_name: functionName,
+      p_max_requests: readLimit('RATE_LIMIT_REQUESTS_PER_MINUTE', 20),
+      p_request_window_seconds: 60,
+      p_max_tokens: readLimit('RATE_LIMIT_TOKENS_PER_DAY', 1_000_000),
+      p_token_window_seconds: 24 * 60 * 60,
+    })
+    .single();
+
+  if (error) {
+    throw new Error(`Rate limit check failed: ${error.message}`);
+  }
+
+  const row = data as {
+    allowed: boolean;
+    retry_after_seconds: number;
+    usage_id: string | null;
+    limit_type: 'requests' | 'tokens' | null;
+  };
+  return {
+    allowed: row.allowed,
+    retryAfterSeconds: row.retry_after_seconds,
+    usageId: row.usage_id,
+    limitType: row.limit_type,
+  };
+}
+
+export async function recordTokenUsage(usageId: string, tokens: number): Promise<void> {
+  const { error } = await createAdminClient()
+    .rpc('record_token_usage', { p_usage_id: usageId, p_tokens: tokens });
+
+  if (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
@@ -0,0 +1,29 @@
+// Catalog of server-side tools the model may call. The handlers live in
+// gemini-chat/tools.ts; this list is what the client shows in settings.
+
+export interface ToolInfo {
+  name: string;
+  label: string;
+  description: string;
+}
+
+export const TOOL_CATALOG: ToolInfo[] = [
+  {
+    name: "fetch_url",
+    label: "URL Fetch",
+    description: "Download a web page and read its text",
+  },
+  {
+    name: "calculator",
+    label: "Calculator",
+    description: "Evaluate arithmetic expressions exactly",
+  },
+  {
+    name: "current_time",
+    label: "Current Time",
+    description: "Look up the current date and time in any time zone",
+  },
+];
+
+/** Upper bound on model → tool → model round trips within a single turn */
+export const MAX_TOOL_STEPS = 5;
@@ -0,0 +1,291 @@
+import { createAdminClient } from "./auth.ts";
+import { extractMainContent } from "./html-to-markdown.ts";
+
+const FETCH_TIMEOUT_MS = 8_000;
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024;
+const MAX_CONTENT_CHARS = 20_000;
+const MAX_REDIRECTS = 3;
+const MAX_URLS_PER_REQUEST = 20;
+// Cached pages younger than this are used without asking the server again
+const CACHE_FRESH_MS = 15 * 60 * 1000;
+
+const TEXT_CONTENT_TYPES = ['text/plain', 'text/markdown', 'text/csv', 'application/json'];
+
+export type UrlFetchResult =
+  | { url: string; title: string; content: string }
+  | { url: string; error: string };
+
+interface CachedPage {
+  etag: string;
+  title: string;
+  content: string;
+  fetched_at: string;
+}
+
+class UrlFetchError extends Error {}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet, index) => /^\d{1,3}$/.test(parts[index]) && octet <= 255) ? octets : null;
+}
+
+function isInternalIPv4([a, b]: number[]): boolean {
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224;
+}
+
+function isInternalIPv6(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (normalized === '::' || normalized === '::1') return true;
+
+  // IPv4-mapped and NAT64 addresses carry an IPv4 address in their last 32 bits,
+  // written either dotted or, as URL parsing normalizes it, as two hextets
+  const dotted = /^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/.exec(normalized);
+  if (dotted) {
+    const octets = parseIPv4(dotted[1]);
+    return !octets || isInternalIPv4(octets);
+  }
+  const hex = /^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(normalized);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isInternalIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+
+  const firstHextet = parseInt(normalized.split(':')[0] || '0', 16);
+  return (firstHextet & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstHextet & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (firstHextet & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+const isInternalAddress = (address: string) => {
+  const octets = parseIPv4(address);
+  return octets ? isInternalIPv4(octets) : isInternalIPv6(address);
+};
+
+/**
+ * Rejects URLs whose host is, or resolves to, a loopback, private, link-local or other internal
+ * address. Returns the addresses that passed, for the request to connect to.
+ */
+async function assertPublicUrl(url: URL): Promise<string[]> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlFetchError(`Unsupported protocol ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new UrlFetchError('URLs with credentials are not fetched');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal') || hostname.endsWith('.local')) {
+    throw new UrlFetchError('Internal addresses are not fetched');
+  }
+
+  const isLiteral = parseIPv4(hostname) !== null || hostname.includes(':');
+  const addresses = isLiteral
+    ? [hostname]
+    : (await Promise.all([
+      Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+    ])).flat();
+
+  if (addresses.length === 0) {
+    throw new UrlFetchError('Host could not be resolved');
+  }
+  if (addresses.some(isInternalAddress)) {
+    throw new UrlFetchError('Internal addresses are not fetched');
+  }
+  return addresses;
+}
+
+// fetch() resolves the host again, and a DNS-rebinding host can answer with an internal address
+// the second time. Plain HTTP therefore connects to the checked address and sends the name as
+// Host. HTTPS keeps the name for certificate checks: a rebound request only succeeds against a
+// server with a valid certificate for that name, which internal services do not have.
+function pinToAddress(url: URL, address: string): URL {
+  const pinned = new URL(url);
+  pinned.hostname = address.includes(':') ? `[${address}]` : address;
+  return pinned;
+}
+
+/** Reads at most MAX_RESPONSE_BYTES; anything beyond is cut off rather than buffered. */
+export async function readCapped(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_RESPONSE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(size, MAX_RESPONSE_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const slice = chunk.subarray(0, bytes.length - offset);
+    bytes.set(slice, offset);
+    offset += slice.byteLength;
+  }
+
+  const charset = /charset=([^;]+)/i.exec(response.headers.get('content-type') ?? '')?.[1]?.trim();
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/** Follows redirects by hand so each hop goes through the address checks. */
+export async function fetchPublic(url: string, headers: HeadersInit, signal: AbortSignal): Promise<Response> {
+  let current = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const addresses = await assertPublicUrl(current);
+    const requestHeaders = new Headers(headers);
+    let target = current;
+    if (current.protocol === 'http:') {
+      target = pinToAddress(current, addresses[0]);
+      requestHeaders.set('Host', current.host);
+    }
+    const response = await fetch(target, { headers: requestHeaders, signal, redirect: 'manual' });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+  throw new UrlFetchError('Too many redirects');
+}
+
+const truncate = (text: string) =>
+  text.length > MAX_CONTENT_CHARS ? `${text.slice(0, MAX_CONTENT_CHARS)}\n\n…(truncated)` : text;
+
+async function fetchPage(url: string, cached: CachedPage | null): Promise<{ page: CachedPage; fromCache: boolean }> {
+  const headers: Record<string, string> = {
+    'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.1',
+    'User-Agent': 'Mozilla/5.0 (compatible; GeminiStudioBot/1.0)',
+  };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+
+  const response = await fetchPublic(url, headers, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  if (response.status === 304 && cached) {
+    return { page: cached, fromCache: true };
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new UrlFetchError(`HTTP ${response.status}`);
+  }
+
+  const contentType = (response.headers.get('content-type') ?? 'text/html').split(';')[0].trim().toLowerCase();
+  const body = await readCapped(response);
+
+  let title = '';
+  let content: string;
+  if (contentType === 'text/html' || contentType === 'application/xhtml+xml') {
+    ({ title, markdown: content } = extractMainContent(body, response.url || url));
+  } else if (TEXT_CONTENT_TYPES.includes(contentType)) {
+    content = body.trim();
+  } else {
+    throw new UrlFetchError(`Unsupported content type ${contentType}`);
+  }
+
+  return {
+    page: {
+      etag: response.headers.get('etag') ?? '',
+      title,
+      content: truncate(content),
+      fetched_at: new Date().toISOString(),
+    },
+    fromCache: false,
+  };
+}
+
+// url_cache rows are shared between users, so only the service role reads and writes them
+async function readCache(urls: string[]): Promise<Map<string, CachedPage>> {
+  const { data, error } = await createAdminClient()
+    .from('url_cache')
+    .select('url, etag, title, content, fetched_at')
+    .in('url', urls)
+    .order('fetched_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to read URL cache:', error);
+    return new Map();
+  }
+
+  // Newest entry per URL wins
+  const pages = new Map<string, CachedPage>();
+  for (const row of data ?? []) {
+    if (!pages.has(row.url)) pages.set(row.url, row);
+  }
+  return pages;
+}
+
+async function writeCache(url: string, page: CachedPage): Promise<void> {
+  const { error } = await createAdminClient()
+    .from('url_cache')
+    .upsert({ url, ...page }, { onConflict: 'url,etag' });
+
+  if (error) {
+    console.error(`Failed to cache ${url}:`, error);
+  }
+}
+
+/** Fetches the given URLs in parallel, serving fresh or revalidated pages from the cache. */
+export async function fetchUrlContents(urls: string[]): Promise<Map<string, UrlFetchResult>> {
+  const unique = [...new Set(urls)].slice(0, MAX_URLS_PER_REQUEST);
+  const results = new Map<string, UrlFetchResult>();
+  if (unique.length === 0) {
+    return results;
+  }
+
+  console.log(`Fetching ${unique.length} URLs for context...`);
+  const cache = await readCache(unique);
+
+  await Promise.all(unique.map(async (url) => {
+    const cached = cache.get(url) ?? null;
+    try {
+      if (cached && Date.now() - new Date(cached.fetched_at).getTime() < CACHE_FRESH_MS) {
+        results.set(url, { url, title: cached.title, content: cached.content });
+        return;
+      }
+
+      const { page, fromCache } = await fetchPage(url, cached);
+      await writeCache(url, fromCache ? { ...page, fetched_at: new Date().toISOString() } : page);
+      results.set(url, { url, title: page.title, content: page.content });
+    } catch (error) {
+      const message = error instanceof UrlFetchError
+        ? error.message
+        : error instanceof DOMException && error.name === 'TimeoutError'
+          ? 'Timed out'
+          : 'Failed to fetch';
+      console.error(`Failed to fetch ${url}:`, error);
+      results.set(url, { url, error: message });
+    }
+  }));
+
+  return results;
+}
+
+/** Formats one fetched page the way it is shown to the model. */
+export function formatUrlContent(result: UrlFetchResult): string {
+  if ('error' in result) {
+    return `[Source: ${result.url}]\n(${result.error})`;
+  }
+  return `[Source: ${result.url}]\n${result.title ? `# ${result.title}\n\n` : ''}${result.content || '(No readable content)'}`;
+}
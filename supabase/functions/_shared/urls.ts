@@ -0,0 +1,22 @@
+// URL list handling shared by the edge functions and the web client (via src/lib/urls.ts).
+
+export const MAX_URLS_PER_MESSAGE = 10;
+
+/** Parses one URL per line, keeping unique http(s) URLs in order. */
+export function parseUrlList(text?: string): string[] {
+  const urls: string[] = [];
+  for (const line of (text ?? "").split("\n")) {
+    const candidate = line.trim();
+    if (!candidate) continue;
+
+    try {
+      const url = new URL(candidate);
+      if ((url.protocol === "http:" || url.protocol === "https:") && !urls.includes(url.href)) {
+        urls.push(url.href);
+      }
+    } catch {
+      // Not a URL; the settings panel points these out
+    }
+  }
+  return urls.slice(0, MAX_URLS_PER_MESSAGE);
+}
@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { consumeRateLimit, recordTokenUsage } from "../_shared/rate-limit.ts";
+import type { ChatMessage } from "../_shared/contents.ts";
+import { generateContent } from "../_shared/gemini-api.ts";
+
+// Summaries only need to be faithful, not clever, so they go to the cheapest model
+const SUMMARY_MODEL = 'gemini-2.5-flash-lite';
+
+interface CompactHistoryPayload {
+  messages?: Pick<ChatMessage, 'role' | 'content'>[];
+  previousSummary?: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to compact chats');
+    }
+
+    const { messages = [], previousSummary } = (await req.json()) as CompactHistoryPayload;
+    if (messages.length === 0) {
+      return errorResponse(400, 'invalid_request', 'No messages to summarize');
+    }
+
+    const rateLimit = await consumeRateLimit(auth.user.id, 'compact-history');
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        429,
+        'rate_limited',
+        `Rate limit reached. Try again in ${rateLimit.retryAfterSeconds}s.`,
+        { retryable: true, retryAfter: rateLimit.retryAfterSeconds }
+      );
+    }
+
+    const transcript = messages
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    const prompt = `Conversation Summary Instruction
+
+Task:
+You compress the earlier part of a chat so the conversation can continue without the full transcript.
+
+${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}New messages:
+${transcript}
+
+Instructions:
+1. Merge the summary so far (if any) and the new messages into one updated summary.
+2. Keep facts, decisions, constraints, names, numbers, code identifiers and open questions.
+3. Note what the user asked for and what the assistant already provided.
+4. Drop greetings, filler and anything later superseded.
+5. Write in the third person, as concise bullet points, in the language of the conversation.
+
+Output only the summary.`;
+
+    const response = await generateContent(
+      SUMMARY_MODEL,
+      {
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 2048,
+        },
+      },
+      `- Mock summary of ${messages.length} earlier messages${previousSummary ? ', folded into the previous summary' : ''}`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Gemini API error:', response.status, errorText);
+      return errorResponse(502, 'upstream_error', 'Failed to summarize conversation', {
+        retryable: response.status === 429 || response.status >= 500,
+      });
+    }
+
+    const data = await response.json();
+    if (rateLimit.usageId) {
+      await recordTokenUsage(rateLimit.usageId, data.usageMetadata?.totalTokenCount ?? 0);
+    }
+
+    const summary = (data.candidates?.[0]?.content?.parts ?? [])
+      .map((part: { text?: string }) => part.text ?? '')
+      .join('')
+      .trim();
+    if (!summary) {
+      return errorResponse(502, 'upstream_error', 'The model returned an empty summary');
+    }
+
+    return new Response(
+      JSON.stringify({ summary, model: SUMMARY_MODEL }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in compact-history function:', error);
+    return errorResponse(500, 'internal', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
@@ -0,0 +1,74 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai@0.21.0";
+import { DEFAULT_MODEL_ID, getModelInfo } from "../_shared/models.ts";
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { createAttachmentResolver } from "../_shared/attachment-parts.ts";
+import { buildContents, type ChatMessage } from "../_shared/contents.ts";
+import { fetchUrlContents } from "../_shared/url-context.ts";
+import { estimateTokens, isMockProvider } from "../_shared/gemini-api.ts";
+
+interface CountTokensPayload {
+  messages?: ChatMessage[];
+  model?: string;
+  systemInstruction?: string;
+}
+
+// countTokens is free on the Gemini side and called on a debounce while typing,
+// so it is authenticated but not counted against the per-user rate limit.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to count tokens');
+    }
+
+    const {
+      messages = [],
+      model = DEFAULT_MODEL_ID,
+      systemInstruction,
+    } = (await req.json()) as CountTokensPayload;
+
+    const modelInfo = getModelInfo(model);
+    if (!modelInfo) {
+      return errorResponse(400, 'invalid_request', `Unsupported model: ${model}`);
+    }
+
+    // The mock provider needs no key; like gemini-chat, it skips files too large to inline
+    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+    if (!GEMINI_API_KEY && !isMockProvider()) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+
+    const urlContents = await fetchUrlContents(messages.flatMap((msg) => msg.urls ?? []));
+    const resolveAttachments = createAttachmentResolver(auth.supabase, GEMINI_API_KEY ?? '', modelInfo);
+    const contents = await buildContents(messages, urlContents, resolveAttachments, () => {});
+
+    // The API rejects an empty contents list, so an empty conversation counts as zero
+    let totalTokens = 0;
+    if (isMockProvider()) {
+      totalTokens = estimateTokens([
+        ...(systemInstruction ? [{ text: systemInstruction }] : []),
+        ...contents.flatMap((content) => content.parts),
+      ]);
+    } else if (GEMINI_API_KEY && contents.length > 0) {
+      const geminiModel = new GoogleGenerativeAI(GEMINI_API_KEY).getGenerativeModel({
+        model: modelInfo.id,
+        systemInstruction: systemInstruction || undefined,
+      });
+      ({ totalTokens } = await geminiModel.countTokens({ contents }));
+    }
+
+    return new Response(
+      JSON.stringify({ totalTokens, contextWindow: modelInfo.contextWindow }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in count-tokens function:', error);
+    return errorResponse(500, 'internal', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
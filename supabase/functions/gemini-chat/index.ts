@@ -1,14 +1,29 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "https://esm.sh/@google/generative-ai@0.21.0";
+import { HarmCategory, HarmBlockThreshold } from "https://esm.sh/@google/generative-ai@0.21.0";
+import { DEFAULT_MODEL_ID, getModelInfo, resolveThinkingBudget, type ModelInfo } from "../_shared/models.ts";
+import { toGenerationConfig, validateGenerationParams, type GenerationParams } from "../_shared/generation.ts";
+import {
+  encodeStreamEvent,
+  type CodeExecutionOutcome,
+  type GroundingMetadata,
+  type StreamEvent,
+} from "../_shared/events.ts";
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { consumeRateLimit, recordTokenUsage } from "../_shared/rate-limit.ts";
+import { MAX_TOOL_STEPS } from "../_shared/tools.ts";
+import { getTools, toFunctionDeclarations } from "./tools.ts";
+import { createAttachmentResolver } from "../_shared/attachment-parts.ts";
+import { buildContents, type ChatMessage, type GeminiPart } from "../_shared/contents.ts";
+import { fetchUrlContents } from "../_shared/url-context.ts";
+import { createAssistantRecorder, reopenReply, saveTurn, type SavedTurn, type StoredReply } from "./persistence.ts";
+import { openStreamBuffer } from "./stream-buffer.ts";
+import { createChatProvider } from "./provider.ts";
+import { backoffDelay, getErrorStatus, isRetryableError, MAX_RETRIES_PER_MODEL, sleep } from "./retry.ts";
 
-type ChatRole = "user" | "assistant";
-
-interface ChatMessage {
-  role: ChatRole;
-  content: string;
-  attachments?: string[];
-}
+// Gemini only answers user turns, so a continuation asks for the rest of the reply explicitly
+const CONTINUE_PROMPT = 'Continue your previous answer exactly where it stopped. Do not repeat anything you already wrote.';
 
 type SafetyLevel = "BLOCK_NONE" | "BLOCK_ONLY_HIGH" | "BLOCK_MEDIUM_AND_ABOVE" | "BLOCK_LOW_AND_ABOVE";
 
@@ -25,25 +40,68 @@ interface ChatRequestPayload {
   temperature?: number;
   jsonMode?: boolean;
   useWebSearch?: boolean;
+  useCodeExecution?: boolean;
   systemInstruction?: string;
-  urlContext?: string;
   thinkingBudget?: number;
   safetySettings?: SafetySettingsPayload;
+  enabledTools?: string[];
+  /** Models to try, in order, when the requested one keeps failing */
+  fallbackModels?: string[];
+  generation?: GenerationParams;
+  /** JSON Schema the response must follow; only used in JSON mode */
+  responseSchema?: Record<string, unknown>;
+  /** Session the turn is saved to; without one nothing is persisted */
+  sessionId?: string;
+  /** Stopped reply to continue; messages then end with that reply instead of a user turn */
+  continueMessageId?: string;
+  /** Saved message the new user turn follows; a past one starts a new branch */
+  parentMessageId?: string;
+}
+
+interface ApiGroundingMetadata {
+  webSearchQueries?: string[];
+  groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>;
+  groundingSupports?: Array<{
+    segment?: { startIndex?: number; endIndex?: number; text?: string };
+    groundingChunkIndices?: number[];
+  }>;
 }
 
-type GeminiPart =
-  | { text: string }
-  | { inlineData: { mimeType: string; data: string } };
+// Translate SDK/upstream failures into protocol error events
+function toErrorEvent(error: unknown): Extract<StreamEvent, { type: 'error' }> {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const status = getErrorStatus(error);
 
-interface GeminiMessage {
-  role: "model" | "user";
-  parts: GeminiPart[];
+  if (status === 429) {
+    return { type: 'error', code: 'rate_limited', message, retryable: true };
+  }
+  if (status === 500 || status === 503 || status === 504) {
+    return { type: 'error', code: 'upstream_unavailable', message, retryable: true };
+  }
+  if (status === 400 || status === 404) {
+    return { type: 'error', code: 'invalid_request', message, retryable: false };
+  }
+  if (status !== undefined) {
+    return { type: 'error', code: 'upstream_error', message, retryable: false };
+  }
+  return { type: 'error', code: 'internal', message, retryable: false };
 }
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+function toGroundingMetadata(metadata: ApiGroundingMetadata): GroundingMetadata {
+  return {
+    searchQueries: metadata.webSearchQueries ?? [],
+    chunks: (metadata.groundingChunks ?? []).map((chunk) => ({
+      uri: chunk.web?.uri ?? '',
+      title: chunk.web?.title ?? '',
+    })),
+    supports: (metadata.groundingSupports ?? []).map((support) => ({
+      startIndex: support.segment?.startIndex ?? 0,
+      endIndex: support.segment?.endIndex ?? 0,
+      text: support.segment?.text ?? '',
+      chunkIndices: support.groundingChunkIndices ?? [],
+    })),
+  };
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -51,16 +109,39 @@ serve(async (req) => {
   }
 
   try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to use Gemini');
+    }
+
+    const rateLimit = await consumeRateLimit(auth.user.id, 'gemini-chat');
+    if (!rateLimit.allowed) {
+      const limit = rateLimit.limitType === 'tokens' ? 'Daily token limit' : 'Request rate limit';
+      return errorResponse(
+        429,
+        'rate_limited',
+        `${limit} reached. Try again in ${rateLimit.retryAfterSeconds}s.`,
+        { retryable: true, retryAfter: rateLimit.retryAfterSeconds }
+      );
+    }
+
     const {
       messages: incomingMessages,
-      model = "gemini-2.5-flash",
+      model = DEFAULT_MODEL_ID,
       temperature = 0.7,
       jsonMode = false,
       useWebSearch = false,
+      useCodeExecution = false,
       systemInstruction,
-      urlContext,
-      thinkingBudget = 2000,
+      thinkingBudget,
       safetySettings: incomingSafety,
+      enabledTools = [],
+      fallbackModels = [],
+      responseSchema,
+      generation = {},
+      sessionId,
+      continueMessageId,
+      parentMessageId,
     } = (await req.json()) as ChatRequestPayload;
 
     const messages: ChatMessage[] = incomingMessages ?? [];
@@ -71,78 +152,56 @@ serve(async (req) => {
       dangerousContent: incomingSafety?.dangerousContent ?? "BLOCK_MEDIUM_AND_ABOVE",
     };
     const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
+    const provider = createChatProvider(GEMINI_API_KEY);
 
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not configured');
+    const modelInfo = getModelInfo(model);
+    if (!modelInfo) {
+      return errorResponse(400, 'invalid_request', `Unsupported model: ${model}`);
     }
 
-    console.log(`Starting chat with model: ${model}, temperature: ${temperature}, jsonMode: ${jsonMode}, useWebSearch: ${useWebSearch}, thinkingBudget: ${thinkingBudget}`);
-
-    // Fetch and parse URL context if provided
-    let urlContextText = '';
-    if (urlContext && urlContext.trim()) {
-      const urls = urlContext
-        .split('\n')
-        .map((u) => u.trim())
-        .filter((u): u is string => u.length > 0);
-      console.log(`Fetching ${urls.length} URLs for context...`);
-      
-      for (const url of urls) {
-        try {
-          const response = await fetch(url);
-          const html = await response.text();
-          // Basic HTML parsing - extract text content
-          const textContent = html
-            .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-            .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-            .replace(/<[^>]+>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-          
-          urlContextText += `\n\n[Source: ${url}]\n${textContent.slice(0, 5000)}\n`;
-        } catch (error) {
-          console.error(`Failed to fetch ${url}:`, error);
-          urlContextText += `\n\n[Source: ${url}]\n(Failed to fetch)\n`;
-        }
-      }
+    const generationErrors = Object.values(validateGenerationParams(modelInfo, generation));
+    if (generationErrors.length > 0) {
+      return errorResponse(400, 'invalid_request', generationErrors.join('; '));
     }
 
-    // Map model names to Gemini API model identifiers
-    const modelMap: Record<string, string> = {
-      'gemini-2.5-pro': 'gemini-2.0-flash-exp',
-      'gemini-2.5-flash': 'gemini-2.0-flash-exp',
-      'gemini-2.5-flash-lite': 'gemini-2.0-flash-exp',
-    };
-
-    const apiModel = modelMap[model] || 'gemini-2.0-flash-exp';
-
-    // Initialize Gemini AI
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-    
-    // Build generation config
-    const generationConfig: {
-      temperature: number;
-      maxOutputTokens: number;
-      responseMimeType?: string;
-    } = {
-      temperature,
-      maxOutputTokens: 8192,
-    };
+    const candidateCount = generation.candidateCount ?? 1;
+    // Single-candidate streams keep the untagged event shape
+    const onChannel = (candidate: number) => (candidateCount > 1 ? { candidate } : {});
 
-    // Note: thinkingTokens is not yet supported in Gemini API
-    // Keeping thinkingBudget for future use
-    
-    if (jsonMode) {
-      generationConfig.responseMimeType = "application/json";
+    // The requested model goes first; unknown or repeated fallbacks are dropped
+    const modelChain: ModelInfo[] = [modelInfo];
+    for (const id of fallbackModels) {
+      const info = getModelInfo(id);
+      if (info && !modelChain.includes(info)) {
+        modelChain.push(info);
+      }
     }
 
-    // Build tools config
-    const tools: Array<{ googleSearch: Record<string, never> }> = [];
-    if (useWebSearch) {
-      tools.push({
-        googleSearch: {}
-      });
+    // Save the turn before generating; the reply is written into its row as it streams
+    const newestMessage = messages[messages.length - 1];
+    let savedTurn: SavedTurn | null = null;
+    let storedReply: StoredReply | undefined;
+    if (sessionId && continueMessageId) {
+      storedReply = await reopenReply(auth.supabase, continueMessageId) ?? undefined;
+      if (!storedReply) {
+        return errorResponse(404, 'invalid_request', 'Message to continue not found');
+      }
+      savedTurn = { assistantMessageId: continueMessageId };
+    } else if (sessionId && newestMessage?.role === 'user') {
+      savedTurn = await saveTurn(auth.supabase, sessionId, newestMessage, modelInfo.id, parentMessageId);
+      if (!savedTurn) {
+        return errorResponse(404, 'invalid_request', 'Session not found');
+      }
     }
+    const recorder = savedTurn
+      ? createAssistantRecorder(auth.supabase, savedTurn.assistantMessageId, storedReply)
+      : null;
+    if (continueMessageId) {
+      messages.push({ role: 'user', content: CONTINUE_PROMPT });
+    }
+
+    // Fetch the pages attached to any turn; unchanged ones come from the cache
+    const urlContents = await fetchUrlContents(messages.flatMap((msg) => msg.urls ?? []));
 
     // Map safety setting strings to thresholds
     const thresholdMap: Record<SafetyLevel, HarmBlockThreshold> = {
@@ -152,135 +211,310 @@ serve(async (req) => {
       BLOCK_LOW_AND_ABOVE: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
     };
 
-    const geminiModel = genAI.getGenerativeModel({ 
-      model: apiModel,
-      generationConfig,
-      systemInstruction: systemInstruction || undefined,
-      tools: tools.length > 0 ? tools : undefined,
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: thresholdMap[safetySettings.harassment] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: thresholdMap[safetySettings.hateSpeech] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: thresholdMap[safetySettings.sexuallyExplicit] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: thresholdMap[safetySettings.dangerousContent] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
-        }
-      ]
-    });
+    // Everything that depends on model capabilities is built per model in the chain
+    const prepareModel = async (info: ModelInfo, warn: (message: string) => void) => {
+      const resolvedThinkingBudget = resolveThinkingBudget(info, thinkingBudget);
+
+      console.log(`Preparing ${provider.name} chat with model: ${info.id}, temperature: ${temperature}, jsonMode: ${jsonMode}, useWebSearch: ${useWebSearch}, useCodeExecution: ${useCodeExecution}, thinkingBudget: ${resolvedThinkingBudget ?? 'n/a'}`);
+
+      // Build generation config
+      const generationConfig: ReturnType<typeof toGenerationConfig> & {
+        temperature: number;
+        responseMimeType?: string;
+        responseJsonSchema?: Record<string, unknown>;
+        thinkingConfig?: {
+          thinkingBudget: number;
+          includeThoughts: boolean;
+        };
+      } = {
+        temperature,
+        ...toGenerationConfig(info, generation),
+      };
 
-    // Transform messages to Gemini format
-    const contents: GeminiMessage[] = messages.map((msg, index) => {
-      const parts: GeminiPart[] = [];
-      
-      // Add URL context to first user message if available
-      if (index === 0 && msg.role === 'user' && urlContextText) {
-        parts.push({ text: `[URL Context Information]${urlContextText}\n\n[User Message]\n${msg.content}` });
-      } else if (msg.content) {
-        parts.push({ text: msg.content });
+      if (resolvedThinkingBudget !== undefined) {
+        generationConfig.thinkingConfig = {
+          thinkingBudget: resolvedThinkingBudget,
+          includeThoughts: resolvedThinkingBudget !== 0,
+        };
       }
 
-      // Add attachments if present (base64 data URLs)
-      if (msg.attachments && msg.attachments.length > 0) {
-        for (const dataUrl of msg.attachments) {
-          try {
-            const matches = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
-            if (matches && matches[1].startsWith('image/')) {
-              const mimeType = matches[1];
-              const base64Data = matches[2];
-              
-              parts.push({
-                inlineData: {
-                  mimeType,
-                  data: base64Data
-                }
-              });
-            }
-          } catch (error) {
-            console.error('Error processing attachment:', error);
-          }
+      if (jsonMode && info.supportsJsonMode) {
+        generationConfig.responseMimeType = "application/json";
+        // responseJsonSchema takes standard JSON Schema, unlike the OpenAPI-flavoured responseSchema
+        if (responseSchema) {
+          generationConfig.responseJsonSchema = responseSchema;
         }
       }
 
+      // Build tools config
+      const tools: Array<
+        | { googleSearch: Record<string, never> }
+        | { codeExecution: Record<string, never> }
+        | { functionDeclarations: ReturnType<typeof toFunctionDeclarations> }
+      > = [];
+      if (useWebSearch && info.supportsSearch) {
+        tools.push({
+          googleSearch: {}
+        });
+      }
+      if (useCodeExecution && info.supportsCodeExecution) {
+        tools.push({ codeExecution: {} });
+      }
+
+      // Gemini rejects function declarations alongside its built-in tools, so those win.
+      // Tool results can only be fed back into one candidate, so tools need a single one.
+      const functionTools = info.supportsTools && candidateCount === 1 ? getTools(enabledTools) : [];
+      if (functionTools.length > 0 && tools.length > 0) {
+        console.warn('Function tools are ignored while Google Search or code execution is enabled');
+      } else if (functionTools.length > 0) {
+        tools.push({ functionDeclarations: toFunctionDeclarations(functionTools) });
+      }
+      const toolsByName = new Map(functionTools.map((tool) => [tool.name, tool]));
+
+      const chatConfig = {
+        model: info.id,
+        generationConfig,
+        systemInstruction: systemInstruction || undefined,
+        tools: tools.length > 0 ? tools : undefined,
+        safetySettings: [
+          {
+            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+            threshold: thresholdMap[safetySettings.harassment] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+          },
+          {
+            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+            threshold: thresholdMap[safetySettings.hateSpeech] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+          },
+          {
+            category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+            threshold: thresholdMap[safetySettings.sexuallyExplicit] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+          },
+          {
+            category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+            threshold: thresholdMap[safetySettings.dangerousContent] || HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE
+          }
+        ]
+      };
+
+      // Attachments are storage references; read them as the calling user so RLS applies.
+      // Without an API key (mock provider) files too large to inline are skipped with a warning.
+      const resolveAttachments = createAttachmentResolver(auth.supabase, GEMINI_API_KEY ?? '', info);
+
+      // Transform messages to Gemini format
+      const contents = await buildContents(messages, urlContents, resolveAttachments, warn);
+
+      // Ensure history starts with user message (Gemini requirement)
+      const history = contents.slice(0, -1);
+      const validHistory = history.length > 0 && history[0].role === 'user' 
+        ? history 
+        : [];
+
       return {
-        role: msg.role === 'assistant' ? 'model' : 'user',
-        parts,
+        // A fresh chat per attempt keeps failed attempts out of the session history
+        startChat: () => provider.startChat({ ...chatConfig, history: validHistory }),
+        lastParts: contents[contents.length - 1].parts,
+        toolsByName,
       };
-    });
+    };
+
+    const requestId = crypto.randomUUID();
+    // Events are buffered under the request id so a dropped client can resume the generation
+    const buffer = await openStreamBuffer(requestId, auth.user.id, savedTurn?.assistantMessageId);
+
+    // Set once the client disconnects; generation carries on so the saved reply still completes
+    let clientGone = false;
 
-    // Start streaming chat
-    // Ensure history starts with user message (Gemini requirement)
-    const history = contents.slice(0, -1);
-    const validHistory = history.length > 0 && history[0].role === 'user' 
-      ? history 
-      : [];
-    
-    const chat = geminiModel.startChat({
-      history: validHistory,
-      generationConfig,
+    // A dropped connection keeps generating so the answer can be resumed; a deliberate stop,
+    // flagged by the client before it hangs up, cancels the upstream call
+    const upstream = new AbortController();
+    req.signal.addEventListener('abort', async () => {
+      if (await buffer.isStopRequested()) {
+        console.log(`Generation ${requestId} stopped by the client`);
+        upstream.abort();
+      }
     });
 
-    const lastMessage = contents[contents.length - 1];
-    const result = await chat.sendMessageStream(lastMessage.parts);
+    const generate = async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      const encoder = new TextEncoder();
+      const send = (event: StreamEvent) => {
+        recorder?.record(event);
+        const id = buffer.append(event);
+        if (!clientGone) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event, id)));
+        }
+      };
+      const prepared = new Map<string, ReturnType<typeof prepareModel>>();
+      let answeredBy: string | null = null;
+
+      const runTurn = async (info: ModelInfo) => {
+        if (!prepared.has(info.id)) {
+          prepared.set(info.id, prepareModel(info, (message) => send({ type: 'warning', message })));
+        }
+        const { startChat, lastParts, toolsByName } = await prepared.get(info.id)!;
+        const chat = startChat();
+
+        // Announce the model with its first output; from then on the turn can't be retried
+        const emit = (event: StreamEvent) => {
+          if (answeredBy === null) {
+            answeredBy = info.id;
+            send({ type: 'model', model: info.id });
+          }
+          send(event);
+        };
+
+        let nextParts: GeminiPart[] = lastParts;
+        const grounding = new Map<number, ApiGroundingMetadata>();
+        const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+        // model → tool → model loop; each pass streams one model response
+        for (let step = 0; ; step++) {
+          const result = await chat.sendMessageStream(nextParts, { signal: upstream.signal });
+          const functionCalls: Array<{ name: string; args: Record<string, unknown> }> = [];
 
-    // Stream the response back to the client
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          let isThinking = false;
           for await (const chunk of result.stream) {
-            const text = chunk.text();
-            
-            // Check if model is in thinking mode (basic heuristic)
-            // Real implementation would need model-specific thinking detection
-            if (text && text.includes('...')) {
-              if (!isThinking) {
-                isThinking = true;
-                const thinkingEvent = `data: ${JSON.stringify({ thinking: true })}\n\n`;
-                controller.enqueue(new TextEncoder().encode(thinkingEvent));
+            upstream.signal.throwIfAborted();
+            for (const [position, candidate] of (chunk.candidates ?? []).entries()) {
+              const channel = candidate.index ?? position;
+              if (candidate.groundingMetadata) {
+                grounding.set(channel, candidate.groundingMetadata as ApiGroundingMetadata);
+              }
+
+              // chunk.text() would merge thought parts into the answer, so walk the parts instead
+              const parts = (candidate.content?.parts ?? []) as GeminiPart[];
+              for (const part of parts) {
+                if ('functionCall' in part) {
+                  functionCalls.push({ name: part.functionCall.name, args: part.functionCall.args ?? {} });
+                  continue;
+                }
+                if ('executableCode' in part) {
+                  const { language, code } = part.executableCode;
+                  emit({ type: 'code', language: language.toLowerCase(), code, ...onChannel(channel) });
+                  continue;
+                }
+                if ('codeExecutionResult' in part) {
+                  const { outcome, output = '' } = part.codeExecutionResult;
+                  emit({ type: 'code_result', outcome: outcome as CodeExecutionOutcome, output, ...onChannel(channel) });
+                  continue;
+                }
+                if (!('text' in part) || !part.text) {
+                  continue;
+                }
+                emit({ type: part.thought ? 'thought' : 'delta', text: part.text, ...onChannel(channel) });
               }
             }
-            
-            if (text) {
-              const sseData = `data: ${JSON.stringify({ text })}\n\n`;
-              controller.enqueue(new TextEncoder().encode(sseData));
-            }
-          }
-          
-          // Signal end of thinking if it was active
-          if (isThinking) {
-            const thinkingEndEvent = `data: ${JSON.stringify({ thinking: false })}\n\n`;
-            controller.enqueue(new TextEncoder().encode(thinkingEndEvent));
           }
-          
-          // Get usage metadata after stream completes
+
           const response = await result.response;
           const usageMetadata = response.usageMetadata;
-          
           if (usageMetadata) {
-            const metadataEvent = `data: ${JSON.stringify({ 
-              metadata: {
-                promptTokens: usageMetadata.promptTokenCount,
-                completionTokens: usageMetadata.candidatesTokenCount,
-                totalTokens: usageMetadata.totalTokenCount
+            usage.promptTokens += usageMetadata.promptTokenCount ?? 0;
+            usage.completionTokens += usageMetadata.candidatesTokenCount ?? 0;
+            usage.totalTokens += usageMetadata.totalTokenCount ?? 0;
+          }
+
+          if (functionCalls.length === 0 || step >= MAX_TOOL_STEPS) {
+            for (const [channel, metadata] of grounding) {
+              emit({ type: 'grounding', grounding: toGroundingMetadata(metadata), ...onChannel(channel) });
+            }
+            if (usage.totalTokens > 0) {
+              emit({ type: 'usage', usage });
+            }
+            if (rateLimit.usageId) {
+              await recordTokenUsage(rateLimit.usageId, usage.totalTokens);
+            }
+
+            const blockReason = response.promptFeedback?.blockReason;
+            // Gemini may return fewer candidates than requested, so the client counts against these
+            if (candidateCount > 1 && response.candidates?.length) {
+              const candidates = response.candidates.length;
+              response.candidates.forEach((candidate, position) => {
+                emit({ type: 'finish', finishReason: candidate.finishReason ?? 'STOP', candidate: candidate.index ?? position, candidates });
+              });
+              return;
+            }
+
+            const finishReason = functionCalls.length > 0
+              ? 'MAX_TOOL_STEPS'
+              : response.candidates?.[0]?.finishReason ?? (blockReason ? 'SAFETY' : 'STOP');
+            emit({ type: 'finish', finishReason, blockReason });
+            return;
+          }
+
+          nextParts = await Promise.all(
+            functionCalls.map(async ({ name, args }) => {
+              const callId = crypto.randomUUID();
+              emit({ type: 'tool_call', callId, name, args });
+
+              const tool = toolsByName.get(name);
+              try {
+                if (!tool) {
+                  throw new Error(`Unknown tool: ${name}`);
+                }
+                const toolResult = await tool.handler(args);
+                emit({ type: 'tool_result', callId, name, result: toolResult });
+                return { functionResponse: { name, response: { result: toolResult } } };
+              } catch (error) {
+                const message = error instanceof Error ? error.message : 'Tool failed';
+                console.error(`Tool ${name} failed:`, error);
+                emit({ type: 'tool_result', callId, name, error: message });
+                return { functionResponse: { name, response: { error: message } } };
               }
-            })}\n\n`;
-            controller.enqueue(new TextEncoder().encode(metadataEvent));
+            })
+          );
+        }
+      };
+
+      try {
+        send({ type: 'start', requestId, model: modelInfo.id, ...savedTurn });
+
+        // Retry transient failures with backoff, then walk the fallback chain
+        let lastError: unknown;
+        for (const info of modelChain) {
+          for (let attempt = 0; attempt <= MAX_RETRIES_PER_MODEL; attempt++) {
+            if (attempt > 0) {
+              await sleep(backoffDelay(attempt - 1));
+            }
+            upstream.signal.throwIfAborted();
+            try {
+              await runTurn(info);
+              await recorder?.finish('complete');
+              return;
+            } catch (error) {
+              // Once output has reached the client a retry would duplicate it
+              if (answeredBy !== null || !isRetryableError(error)) {
+                throw error;
+              }
+              console.warn(`Attempt ${attempt + 1} with ${info.id} failed (request ${requestId}):`, error);
+              lastError = error;
+            }
           }
-          
+        }
+        throw lastError;
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          // The client keeps what it had; the saved reply can be continued later
+          await recorder?.finish('stopped');
+          return;
+        }
+        console.error(`Stream error (request ${requestId}):`, error);
+        const errorEvent = toErrorEvent(error);
+        send(errorEvent);
+        await recorder?.finish('failed', errorEvent.message);
+      } finally {
+        await buffer.close();
+        if (!clientGone) {
           controller.close();
-        } catch (error) {
-          console.error('Stream error:', error);
-          controller.error(error);
         }
+      }
+    };
+
+    // Stream the response back to the client
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        EdgeRuntime.waitUntil(generate(controller));
+      },
+      cancel() {
+        clientGone = true;
       },
     });
 
@@ -295,12 +529,6 @@ serve(async (req) => {
 
   } catch (error) {
     console.error('Error in gemini-chat function:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), 
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return errorResponse(500, 'internal', error instanceof Error ? error.message : 'Unknown error');
   }
 });
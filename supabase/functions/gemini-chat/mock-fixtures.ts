@@ -0,0 +1,150 @@
+import type { GeminiPart } from "../_shared/contents.ts";
+
+// Scripted answers for the mock provider. A prompt picks one with a [mock:<name>] tag,
+// otherwise GEMINI_MOCK_FIXTURE or "text" is played. Every fixture is deterministic.
+
+export interface MockResponse {
+  /** Streamed one part per chunk */
+  parts: GeminiPart[];
+  /** Search results the answer cites, attached to the last chunk */
+  grounding?: MockSource[];
+  finishReason?: string;
+  /** Set when the prompt itself was blocked; no candidate is returned */
+  blockReason?: string;
+  /** Raised after the parts were streamed; with no parts the request itself fails */
+  error?: { status: number; message: string };
+}
+
+export interface MockSource {
+  uri: string;
+  title: string;
+  /** Passage of the answer this source supports */
+  quote: string;
+}
+
+export interface MockCall {
+  /** Parts sent with this model call: the user turn, or tool results */
+  parts: GeminiPart[];
+  model: string;
+  /** Chats started before this one in the same request, across retries and fallbacks */
+  attempt: number;
+}
+
+export interface MockFixture {
+  description: string;
+  /** One response per model call; each round of tool calls makes the model answer again */
+  responses: Array<MockResponse | ((call: MockCall) => MockResponse)>;
+  /** Pause before each chunk */
+  chunkDelayMs?: number;
+}
+
+// Splits text into deltas of a few words, keeping the whitespace
+const deltas = (text: string, thought = false): GeminiPart[] =>
+  (text.match(/\S+\s*\S*\s*\S*\s*/g) ?? []).map((piece) => (thought ? { text: piece, thought: true } : { text: piece }));
+
+const promptText = (parts: GeminiPart[]) =>
+  parts.map((part) => ('text' in part ? part.text : '')).join(' ').replace(/\[mock:[\w-]+\]/g, '').trim();
+
+const excerpt = (text: string) => (text.length > 80 ? `${text.slice(0, 80)}…` : text);
+
+const LONG_PARAGRAPH =
+  'The mock provider keeps writing so there is time to stop, reload or drop the connection mid-answer. ';
+
+export const MOCK_FIXTURES: Record<string, MockFixture> = {
+  text: {
+    description: 'Plain Markdown answer that quotes the prompt',
+    responses: [
+      (call) => ({
+        parts: deltas(
+          `This is a **mock reply** from the offline provider, answering "${excerpt(promptText(call.parts)) || 'an empty prompt'}".\n\n` +
+          '## What it covers\n\n- Streaming text deltas\n- Markdown rendering\n- Usage metadata\n\n' +
+          '```ts\nconst answer = 42;\n```\n'
+        ),
+      }),
+    ],
+  },
+  thoughts: {
+    description: 'Thought summary followed by the answer',
+    responses: [
+      {
+        parts: [
+          ...deltas('**Planning the answer**\n\nThe question is simple, so a short reply with one example will do.', true),
+          ...deltas('Here is the answer after thinking it through: ranges are inclusive at the start and exclusive at the end.'),
+        ],
+      },
+    ],
+  },
+  grounding: {
+    description: 'Answer grounded in two search results',
+    responses: [
+      {
+        parts: deltas('The Eiffel Tower is 330 metres tall. It was completed in 1889 for the World\'s Fair.'),
+        grounding: [
+          { uri: 'https://example.com/eiffel-height', title: 'example.com', quote: 'The Eiffel Tower is 330 metres tall.' },
+          { uri: 'https://example.org/eiffel-history', title: 'example.org', quote: 'It was completed in 1889 for the World\'s Fair.' },
+        ],
+      },
+    ],
+  },
+  tool_call: {
+    description: 'Calls the calculator tool, then answers with its result',
+    responses: [
+      { parts: [{ functionCall: { name: 'calculator', args: { expression: '(2 + 3) ^ 2 / 5' } } }] },
+      (call) => {
+        const response = call.parts.find((part) => 'functionResponse' in part);
+        const payload = response && 'functionResponse' in response ? response.functionResponse.response : {};
+        return { parts: deltas(`The calculator returned ${JSON.stringify(payload)}.`) };
+      },
+    ],
+  },
+  code: {
+    description: 'Runs code and explains the output',
+    responses: [
+      {
+        parts: [
+          ...deltas('Let me compute that.\n\n'),
+          { executableCode: { language: 'PYTHON', code: 'print(sum(range(1, 11)))' } },
+          { codeExecutionResult: { outcome: 'OUTCOME_OK', output: '55\n' } },
+          ...deltas('\nThe sum of 1 through 10 is 55.'),
+        ],
+      },
+    ],
+  },
+  safety_prompt: {
+    description: 'Prompt blocked by the safety filters',
+    responses: [{ parts: [], blockReason: 'SAFETY' }],
+  },
+  safety_answer: {
+    description: 'Answer cut off by the safety filters',
+    responses: [{ parts: deltas('This answer starts normally but'), finishReason: 'SAFETY' }],
+  },
+  max_tokens: {
+    description: 'Answer cut off at the output token limit',
+    responses: [{ parts: deltas('This answer runs out of room before it'), finishReason: 'MAX_TOKENS' }],
+  },
+  rate_limited: {
+    description: 'Every attempt is rate limited',
+    responses: [{ parts: [], error: { status: 429, message: 'Resource has been exhausted (mock)' } }],
+  },
+  unavailable_once: {
+    description: 'The first attempt fails with 503, the retry answers',
+    responses: [
+      (call) => call.attempt === 0
+        ? { parts: [], error: { status: 503, message: 'The model is overloaded (mock)' } }
+        : { parts: deltas(`Answered on attempt ${call.attempt + 1} by ${call.model}.`) },
+    ],
+  },
+  invalid_request: {
+    description: 'The request is rejected as invalid',
+    responses: [{ parts: [], error: { status: 400, message: 'Request contains an invalid argument (mock)' } }],
+  },
+  midstream_error: {
+    description: 'Fails after part of the answer was streamed',
+    responses: [{ parts: deltas('The first half of this answer arrives, then'), error: { status: 500, message: 'Internal error (mock)' } }],
+  },
+  long: {
+    description: 'Slow, long answer for trying stop, continue and resume',
+    chunkDelayMs: 150,
+    responses: [{ parts: deltas(LONG_PARAGRAPH.repeat(20)) }],
+  },
+};
@@ -0,0 +1,157 @@
+import type { GeminiMessage, GeminiPart } from "../_shared/contents.ts";
+import { estimateTokens } from "../_shared/gemini-api.ts";
+import type { ChatProvider, ProviderChunk, ProviderResponse } from "./provider.ts";
+import { MOCK_FIXTURES, type MockFixture, type MockResponse, type MockSource } from "./mock-fixtures.ts";
+
+// Offline stand-in for Gemini that plays the scripted fixtures in mock-fixtures.ts,
+// shaped exactly like SDK responses so everything downstream runs unchanged.
+
+const DEFAULT_CHUNK_DELAY_MS = 40;
+const FIXTURE_TAG = /\[mock:([\w-]+)\]/;
+
+/** Carries a status like the SDK's fetch errors, so retries and error mapping behave the same */
+class MockProviderError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+function selectFixture(parts: GeminiPart[]): MockFixture {
+  const text = parts.map((part) => ('text' in part ? part.text : '')).join('\n');
+  const name = FIXTURE_TAG.exec(text)?.[1] ?? Deno.env.get('GEMINI_MOCK_FIXTURE') ?? 'text';
+  const fixture = MOCK_FIXTURES[name];
+  if (!fixture) {
+    throw new MockProviderError(
+      `Unknown mock fixture "${name}". Available: ${Object.keys(MOCK_FIXTURES).join(', ')}`,
+      400
+    );
+  }
+  return fixture;
+}
+
+// Grounding supports point at UTF-8 byte offsets into the answer text
+function toGroundingMetadata(answer: string, sources: MockSource[]) {
+  const encoder = new TextEncoder();
+  return {
+    webSearchQueries: ['mock search query'],
+    groundingChunks: sources.map(({ uri, title }) => ({ web: { uri, title } })),
+    groundingSupports: sources.flatMap(({ quote }, index) => {
+      const start = answer.indexOf(quote);
+      if (start < 0) return [];
+      const startIndex = encoder.encode(answer.slice(0, start)).length;
+      return [{
+        segment: { startIndex, endIndex: startIndex + encoder.encode(quote).length, text: quote },
+        groundingChunkIndices: [index],
+      }];
+    }),
+  };
+}
+
+// Every requested candidate replays the script; later ones are labelled so they can be told apart
+function toChunks(script: MockResponse, candidateCount: number): ProviderChunk[] {
+  if (script.blockReason) return [];
+  const channels = Array.from({ length: candidateCount }, (_, index) =>
+    index === 0 ? script.parts : [{ text: `(Candidate ${index + 1}) ` }, ...script.parts]
+  );
+  const length = Math.max(...channels.map((parts) => parts.length));
+  const answer = script.parts.map((part) => ('text' in part && !part.thought ? part.text : '')).join('');
+
+  return Array.from({ length }, (_, position) => ({
+    candidates: channels.flatMap((parts, index) =>
+      position < parts.length
+        ? [{
+          index,
+          content: { role: 'model', parts: [parts[position]] },
+          ...(script.grounding && position === length - 1 && { groundingMetadata: toGroundingMetadata(answer, script.grounding) }),
+        }]
+        : []
+    ),
+  }));
+}
+
+function toResponse(script: MockResponse, candidateCount: number, history: GeminiMessage[], parts: GeminiPart[]): ProviderResponse {
+  const promptTokenCount = estimateTokens([...history.flatMap((message) => message.parts), ...parts]);
+  const candidatesTokenCount = estimateTokens(script.parts) * candidateCount;
+  return {
+    candidates: script.blockReason
+      ? []
+      : Array.from({ length: candidateCount }, (_, index) => ({ index, finishReason: script.finishReason ?? 'STOP' })),
+    usageMetadata: { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount },
+    ...(script.blockReason && { promptFeedback: { blockReason: script.blockReason } }),
+  };
+}
+
+export function createMockProvider(): ChatProvider {
+  // Counts chats across retries and fallbacks, which fixtures use to fail only some attempts
+  let attempts = 0;
+
+  return {
+    name: 'mock',
+    startChat: ({ model, generationConfig, history }) => {
+      const attempt = attempts++;
+      const candidateCount = generationConfig.candidateCount ?? 1;
+      const turns = [...history];
+      let fixture: MockFixture | null = null;
+      let call = 0;
+
+      return {
+        async sendMessageStream(parts, { signal }) {
+          fixture ??= selectFixture(parts);
+          const delay = fixture.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+          const step = fixture.responses[Math.min(call++, fixture.responses.length - 1)];
+          const script = typeof step === 'function' ? step({ parts, model, attempt }) : step;
+
+          await sleep(delay, signal);
+          if (script.error && script.parts.length === 0) {
+            throw new MockProviderError(script.error.message, script.error.status);
+          }
+
+          const response = toResponse(script, candidateCount, turns, parts);
+          turns.push({ role: 'user', parts }, { role: 'model', parts: script.parts });
+
+          let ended!: () => void;
+          let failed!: (error: unknown) => void;
+          const done = new Promise<void>((resolve, reject) => {
+            ended = resolve;
+            failed = reject;
+          });
+          const result = done.then(() => response);
+          // Callers stop reading a failed stream without awaiting the response
+          result.catch(() => {});
+
+          async function* stream(): AsyncGenerator<ProviderChunk> {
+            try {
+              for (const chunk of toChunks(script, candidateCount)) {
+                await sleep(delay, signal);
+                yield chunk;
+              }
+              if (script.error) {
+                throw new MockProviderError(script.error.message, script.error.status);
+              }
+              ended();
+            } catch (error) {
+              failed(error);
+              throw error;
+            }
+          }
+
+          return { stream: stream(), response: result };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,312 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.74.0";
+import type { ChatMessage } from "../_shared/contents.ts";
+import type {
+  CodeExecutionStep,
+  GroundingMetadata,
+  MessageStatus,
+  StreamEvent,
+  TokenUsage,
+  ToolCallStep,
+} from "../_shared/events.ts";
+
+// gemini-chat saves the turn itself so a reply survives the client going away.
+// The assistant row is rebuilt from the same events the client receives.
+
+// Partial answers are written at most this often while streaming
+const FLUSH_INTERVAL_MS = 1_000;
+
+interface CandidateRecord {
+  content: string;
+  thoughts: string;
+  finishReason?: string;
+  grounding?: GroundingMetadata;
+  codeExecutions: CodeExecutionStep[];
+}
+
+export interface SavedTurn {
+  /** Missing when the turn continues an earlier reply */
+  userMessageId?: string;
+  assistantMessageId: string;
+}
+
+/** What a stopped reply already holds when it is continued */
+export interface StoredReply {
+  content: string;
+  thoughts: string | null;
+  grounding: GroundingMetadata | null;
+  codeExecutions: CodeExecutionStep[] | null;
+  toolCalls: ToolCallStep[] | null;
+  usage: TokenUsage | null;
+}
+
+export interface AssistantRecorder {
+  /** Folds a stream event into the saved reply */
+  record(event: StreamEvent): void;
+  /** Writes the final state; an unfinished reply without any output is deleted instead */
+  finish(status: Exclude<MessageStatus, 'streaming'>, error?: string): Promise<void>;
+}
+
+// Recorders still streaming, so a shutting-down worker can mark them interrupted
+const activeRecorders = new Set<AssistantRecorder>();
+
+addEventListener('beforeunload', () => {
+  for (const recorder of activeRecorders) {
+    recorder.finish('interrupted');
+  }
+});
+
+/**
+ * Saves the newest user message with its attachments under its parent, plus an empty
+ * assistant row the reply streams into, and makes that branch the session's active one.
+ * Returns null when the session is not the caller's.
+ */
+export async function saveTurn(
+  supabase: SupabaseClient,
+  sessionId: string,
+  userMessage: ChatMessage,
+  model: string,
+  parentId?: string
+): Promise<SavedTurn | null> {
+  const { data: session } = await supabase.from('sessions').select('id').eq('id', sessionId).maybeSingle();
+  if (!session) {
+    return null;
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('messages')
+    .insert({
+      session_id: sessionId,
+      parent_id: parentId ?? null,
+      role: 'user',
+      content: userMessage.content,
+      urls: userMessage.urls?.length ? userMessage.urls : null,
+    })
+    .select('id')
+    .single();
+  if (userError) throw userError;
+
+  if (userMessage.attachments?.length) {
+    const { error } = await supabase.from('message_attachments').insert(
+      userMessage.attachments.map((ref) => ({
+        message_id: user.id,
+        file_name: ref.name,
+        file_path: ref.path,
+        file_size: ref.size ?? 0,
+        mime_type: ref.mimeType,
+      }))
+    );
+    if (error) console.error('Failed to save attachments:', error);
+  }
+
+  const { data: assistant, error: assistantError } = await supabase
+    .from('messages')
+    .insert({ session_id: sessionId, parent_id: user.id, role: 'assistant', content: '', model, status: 'streaming' })
+    .select('id')
+    .single();
+  if (assistantError) throw assistantError;
+
+  const { error: sessionError } = await supabase
+    .from('sessions')
+    .update({ active_message_id: assistant.id })
+    .eq('id', sessionId);
+  if (sessionError) console.error('Failed to update the active branch:', sessionError);
+
+  return { userMessageId: user.id, assistantMessageId: assistant.id };
+}
+
+/** Loads a reply to continue and marks it as streaming again; null when it is not the caller's. */
+export async function reopenReply(supabase: SupabaseClient, messageId: string): Promise<StoredReply | null> {
+  const { data } = await supabase
+    .from('messages')
+    .update({ status: 'streaming', error: null })
+    .eq('id', messageId)
+    .eq('role', 'assistant')
+    .select('content, thoughts, grounding, code_executions, tool_calls, usage')
+    .maybeSingle();
+  if (!data) {
+    return null;
+  }
+
+  return {
+    content: data.content,
+    thoughts: data.thoughts,
+    grounding: data.grounding,
+    codeExecutions: data.code_executions,
+    toolCalls: data.tool_calls,
+    usage: data.usage,
+  };
+}
+
+// Grounding offsets are UTF-8 byte offsets into the text of the response that produced them,
+// and support chunk indices point into that response's own chunks, so both move past the seed's
+const mergeGrounding = (seed: GroundingMetadata, grounding: GroundingMetadata, bytes: number): GroundingMetadata => ({
+  searchQueries: [...seed.searchQueries, ...grounding.searchQueries.filter((query) => !seed.searchQueries.includes(query))],
+  chunks: [...seed.chunks, ...grounding.chunks],
+  supports: [
+    ...seed.supports,
+    ...grounding.supports.map((support) => ({
+      ...support,
+      startIndex: support.startIndex + bytes,
+      endIndex: support.endIndex + bytes,
+      chunkIndices: support.chunkIndices.map((index) => index + seed.chunks.length),
+    })),
+  ],
+});
+
+/** Rebuilds the reply from stream events; a continued reply starts from what it already holds. */
+export function createAssistantRecorder(
+  supabase: SupabaseClient,
+  messageId: string,
+  seed?: StoredReply
+): AssistantRecorder {
+  const candidates: CandidateRecord[] = [];
+  const toolCalls: ToolCallStep[] = [...(seed?.toolCalls ?? [])];
+  let model: string | null = null;
+  let usage: TokenUsage | null = seed?.usage ?? null;
+  const seedBytes = new TextEncoder().encode(seed?.content ?? '').length;
+  let finished = false;
+  let lastFlush = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Writes are chained so a slow partial update never lands after the final one
+  let writes: Promise<void> = Promise.resolve();
+
+  const candidateAt = (index = 0) => {
+    while (candidates.length <= index) {
+      candidates.push({ content: '', thoughts: '', codeExecutions: [] });
+    }
+    return candidates[index];
+  };
+
+  if (seed) {
+    candidates.push({
+      content: seed.content,
+      thoughts: seed.thoughts ?? '',
+      grounding: seed.grounding ?? undefined,
+      codeExecutions: [...(seed.codeExecutions ?? [])],
+    });
+  }
+
+  const toCandidate = (candidate: CandidateRecord) => ({
+    content: candidate.content,
+    thoughts: candidate.thoughts || undefined,
+    finishReason: candidate.finishReason,
+    grounding: candidate.grounding,
+    codeExecutions: candidate.codeExecutions.length > 0 ? candidate.codeExecutions : undefined,
+  });
+
+  // The top-level columns mirror the first candidate, which is selected until the user picks another
+  const toRow = (status: MessageStatus, error?: string) => {
+    const first = toCandidate(candidateAt(0));
+    return {
+      content: first.content,
+      thoughts: first.thoughts ?? null,
+      finish_reason: first.finishReason ?? null,
+      grounding: first.grounding ?? null,
+      code_executions: first.codeExecutions ?? null,
+      tool_calls: toolCalls.length > 0 ? toolCalls : null,
+      candidates: candidates.length > 1 ? candidates.map(toCandidate) : null,
+      selected_candidate: candidates.length > 1 ? 0 : null,
+      // Until a model answers, the row keeps the requested one
+      ...(model && { model }),
+      usage,
+      status,
+      error: error ?? null,
+    };
+  };
+
+  const write = (status: MessageStatus, error?: string) => {
+    const row = toRow(status, error);
+    writes = writes.then(async () => {
+      const { error: updateError } = await supabase.from('messages').update(row).eq('id', messageId);
+      if (updateError) console.error(`Failed to save message ${messageId}:`, updateError);
+    });
+    return writes;
+  };
+
+  const flush = () => {
+    flushTimer = null;
+    lastFlush = Date.now();
+    write('streaming');
+  };
+
+  const hasOutput = () =>
+    toolCalls.length > 0 || candidates.some((candidate) => candidate.content || candidate.thoughts || candidate.codeExecutions.length > 0);
+
+  const recorder: AssistantRecorder = {
+    record(event) {
+      if (finished) return;
+
+      switch (event.type) {
+        case 'model':
+          model = event.model;
+          break;
+        case 'delta':
+          candidateAt(event.candidate).content += event.text;
+          break;
+        case 'thought':
+          candidateAt(event.candidate).thoughts += event.text;
+          break;
+        case 'grounding':
+          // Only the kept candidate is continued, so the seed's grounding belongs to the first one
+          candidateAt(event.candidate).grounding = seed && !event.candidate
+            ? mergeGrounding(seed.grounding ?? { searchQueries: [], chunks: [], supports: [] }, event.grounding, seedBytes)
+            : event.grounding;
+          break;
+        case 'tool_call':
+          toolCalls.push({ callId: event.callId, name: event.name, args: event.args });
+          break;
+        case 'tool_result': {
+          const step = toolCalls.find((call) => call.callId === event.callId);
+          if (step) Object.assign(step, { result: event.result, error: event.error });
+          break;
+        }
+        case 'code': {
+          const candidate = candidateAt(event.candidate);
+          candidate.codeExecutions.push({ language: event.language, code: event.code, offset: candidate.content.length });
+          break;
+        }
+        case 'code_result': {
+          // A result answers the code emitted just before it
+          const steps = candidateAt(event.candidate).codeExecutions;
+          const last = steps[steps.length - 1];
+          if (last && last.outcome === undefined) Object.assign(last, { outcome: event.outcome, output: event.output });
+          break;
+        }
+        case 'usage':
+          usage = {
+            promptTokens: (seed?.usage?.promptTokens ?? 0) + event.usage.promptTokens,
+            completionTokens: (seed?.usage?.completionTokens ?? 0) + event.usage.completionTokens,
+            totalTokens: (seed?.usage?.totalTokens ?? 0) + event.usage.totalTokens,
+          };
+          break;
+        case 'finish':
+          candidateAt(event.candidate).finishReason = event.finishReason;
+          break;
+        default:
+          return;
+      }
+
+      if (flushTimer === null) {
+        flushTimer = setTimeout(flush, Math.max(0, lastFlush + FLUSH_INTERVAL_MS - Date.now()));
+      }
+    },
+
+    async finish(status, error) {
+      if (finished) return writes;
+      finished = true;
+      activeRecorders.delete(recorder);
+      if (flushTimer !== null) clearTimeout(flushTimer);
+
+      if (status !== 'complete' && !hasOutput()) {
+        await writes;
+        const { error: deleteError } = await supabase.from('messages').delete().eq('id', messageId);
+        if (deleteError) console.error(`Failed to delete message ${messageId}:`, deleteError);
+        return;
+      }
+      await write(status, error);
+    },
+  };
+
+  activeRecorders.add(recorder);
+  return recorder;
+}
@@ -0,0 +1,74 @@
+import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai@0.21.0";
+import type { GeminiMessage, GeminiPart } from "../_shared/contents.ts";
+import { createMockProvider } from "./mock-provider.ts";
+
+// gemini-chat talks to the model through a provider, so the Gemini API can be swapped for
+// scripted fixtures (GEMINI_PROVIDER=mock) when working without an API key or network.
+
+/** Everything a chat is started with; mirrors the Gemini model and startChat parameters */
+export interface ChatConfig {
+  model: string;
+  generationConfig: Record<string, unknown> & { candidateCount?: number };
+  systemInstruction?: string;
+  tools?: Record<string, unknown>[];
+  safetySettings: Array<{ category: string; threshold: string }>;
+  history: GeminiMessage[];
+}
+
+export interface ProviderCandidate {
+  index?: number;
+  content?: { role?: string; parts?: unknown[] };
+  groundingMetadata?: unknown;
+  finishReason?: string;
+}
+
+/** One streamed chunk, shaped like a GenerateContentResponse */
+export interface ProviderChunk {
+  candidates?: ProviderCandidate[];
+}
+
+/** The aggregated response, available once the stream has ended */
+export interface ProviderResponse extends ProviderChunk {
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+  promptFeedback?: { blockReason?: string };
+}
+
+export interface ProviderChat {
+  /** Sends the next user turn and streams one model response; failures carry an HTTP-like status */
+  sendMessageStream(
+    parts: GeminiPart[],
+    options: { signal: AbortSignal }
+  ): Promise<{ stream: AsyncIterable<ProviderChunk>; response: Promise<ProviderResponse> }>;
+}
+
+export interface ChatProvider {
+  name: string;
+  startChat(config: ChatConfig): ProviderChat;
+}
+
+function createGeminiProvider(apiKey: string): ChatProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    startChat: ({ model, generationConfig, systemInstruction, tools, safetySettings, history }) =>
+      genAI
+        .getGenerativeModel({ model, generationConfig, systemInstruction, tools, safetySettings })
+        .startChat({ history, generationConfig }),
+  };
+}
+
+/** Picks the backend from GEMINI_PROVIDER; only the real one needs an API key. */
+export function createChatProvider(apiKey: string | undefined): ChatProvider {
+  const provider = Deno.env.get('GEMINI_PROVIDER') ?? 'gemini';
+  if (provider === 'mock') {
+    return createMockProvider();
+  }
+  if (provider !== 'gemini') {
+    throw new Error(`Unknown GEMINI_PROVIDER: ${provider}`);
+  }
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY is not configured');
+  }
+  return createGeminiProvider(apiKey);
+}
@@ -0,0 +1,22 @@
+const RETRYABLE_STATUSES = new Set([429, 500, 503, 504]);
+
+export const MAX_RETRIES_PER_MODEL = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 4000;
+
+export function getErrorStatus(error: unknown): number | undefined {
+  return (error as { status?: number } | null)?.status;
+}
+
+/** Rate limits and overloads are worth another attempt; bad requests are not. */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return status !== undefined && RETRYABLE_STATUSES.has(status);
+}
+
+// Exponential backoff with full jitter so concurrent requests don't retry in lockstep
+export function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
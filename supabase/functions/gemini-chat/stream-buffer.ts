@@ -0,0 +1,100 @@
+import { createAdminClient } from "../_shared/auth.ts";
+import type { StreamEvent } from "../_shared/events.ts";
+
+// Every event sent to the client is also written to generation_events, so a client
+// whose connection dropped can resume the answer through resume-chat-stream.
+
+// Buffered events are written in batches at most this often
+const FLUSH_INTERVAL_MS = 250;
+// Finished generations are only resumable for a while; older ones are pruned
+const RETENTION_MS = 60 * 60 * 1000;
+
+export interface StreamBuffer {
+  /** Queues the event and returns its sequence number, used as the SSE event id */
+  append(event: StreamEvent): number;
+  /** Writes what is still queued and marks the generation done */
+  close(): Promise<void>;
+  /** Whether the client flagged the generation as stopped on purpose */
+  isStopRequested(): Promise<boolean>;
+}
+
+// Buffers still open, so a shutting-down worker can close them
+const openBuffers = new Set<StreamBuffer>();
+
+addEventListener('beforeunload', () => {
+  for (const buffer of openBuffers) {
+    buffer.close();
+  }
+});
+
+export async function openStreamBuffer(generationId: string, userId: string, messageId?: string): Promise<StreamBuffer> {
+  const admin = createAdminClient();
+
+  const { error: pruneError } = await admin
+    .from('generations')
+    .delete()
+    .eq('user_id', userId)
+    .lt('created_at', new Date(Date.now() - RETENTION_MS).toISOString());
+  if (pruneError) console.error('Failed to prune old generations:', pruneError);
+
+  const { error } = await admin
+    .from('generations')
+    .insert({ id: generationId, user_id: userId, message_id: messageId ?? null });
+  // Without its row the generation cannot be resumed, but the live stream still works
+  const enabled = !error;
+  if (error) console.error(`Failed to register generation ${generationId}:`, error);
+
+  let seq = 0;
+  let pending: { generation_id: string; seq: number; event: StreamEvent }[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  // Batches are chained so events land in order
+  let writes: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    flushTimer = null;
+    const rows = pending;
+    pending = [];
+    if (!enabled || rows.length === 0) return writes;
+
+    writes = writes.then(async () => {
+      const { error: insertError } = await admin.from('generation_events').insert(rows);
+      if (insertError) console.error(`Failed to buffer events of generation ${generationId}:`, insertError);
+    });
+    return writes;
+  };
+
+  const buffer: StreamBuffer = {
+    append(event) {
+      const id = seq++;
+      if (closed) return id;
+
+      pending.push({ generation_id: generationId, seq: id, event });
+      if (flushTimer === null) {
+        flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+      }
+      return id;
+    },
+
+    async close() {
+      if (closed) return writes;
+      closed = true;
+      openBuffers.delete(buffer);
+      if (flushTimer !== null) clearTimeout(flushTimer);
+
+      await flush();
+      if (!enabled) return;
+      const { error: doneError } = await admin.from('generations').update({ done: true }).eq('id', generationId);
+      if (doneError) console.error(`Failed to close generation ${generationId}:`, doneError);
+    },
+
+    async isStopRequested() {
+      if (!enabled) return false;
+      const { data } = await admin.from('generations').select('stop_requested').eq('id', generationId).maybeSingle();
+      return data?.stop_requested ?? false;
+    },
+  };
+
+  openBuffers.add(buffer);
+  return buffer;
+}
@@ -0,0 +1,222 @@
+// Server-defined tools exposed to Gemini through function calling.
+
+import { fetchPublic, readCapped } from "../_shared/url-context.ts";
+
+export interface JsonSchema {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+const FETCH_TIMEOUT_MS = 10_000;
+const FETCH_MAX_CHARS = 10_000;
+
+const fetchUrlTool: ToolDefinition = {
+  name: 'fetch_url',
+  description: 'Fetches a public web page over HTTP(S) and returns its readable text content.',
+  parameters: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Absolute http:// or https:// URL to fetch' },
+    },
+    required: ['url'],
+  },
+  // The model picks the URL, so it goes through the same address checks, redirect handling
+  // and size cap as URL context
+  handler: async (args) => {
+    const url = new URL(String(args.url));
+    const response = await fetchPublic(url.toString(), {}, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
+    const body = await readCapped(response);
+    const text = (response.headers.get('content-type') ?? '').includes('html')
+      ? body
+          .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+          .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+          .replace(/<[^>]+>/g, ' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+      : body;
+
+    return {
+      url: url.toString(),
+      content: text.slice(0, FETCH_MAX_CHARS),
+      truncated: text.length > FETCH_MAX_CHARS,
+    };
+  },
+};
+
+const calculatorTool: ToolDefinition = {
+  name: 'calculator',
+  description:
+    'Evaluates an arithmetic expression. Supports + - * / % ^, parentheses, the constants pi and e, ' +
+    'and the functions sqrt, abs, round, floor, ceil, exp, ln, log, sin, cos, tan.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "(2 + 3) ^ 2 / 7"' },
+    },
+    required: ['expression'],
+  },
+  handler: async (args) => {
+    const expression = String(args.expression);
+    return { expression, result: evaluateExpression(expression) };
+  },
+};
+
+const currentTimeTool: ToolDefinition = {
+  name: 'current_time',
+  description: 'Returns the current date and time, optionally in a specific IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Berlin". Defaults to UTC.' },
+    },
+  },
+  handler: async (args) => {
+    const timeZone = typeof args.timeZone === 'string' && args.timeZone ? args.timeZone : 'UTC';
+    const now = new Date();
+
+    return {
+      iso: now.toISOString(),
+      timeZone,
+      local: new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'long',
+      }).format(now),
+    };
+  },
+};
+
+const TOOL_REGISTRY = new Map<string, ToolDefinition>(
+  [fetchUrlTool, calculatorTool, currentTimeTool].map((tool) => [tool.name, tool])
+);
+
+export function getTools(names: string[]): ToolDefinition[] {
+  return names
+    .map((name) => TOOL_REGISTRY.get(name))
+    .filter((tool): tool is ToolDefinition => tool !== undefined);
+}
+
+export function toFunctionDeclarations(tools: ToolDefinition[]) {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+// Recursive-descent evaluator so the calculator never touches eval()
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|[-+*/%^()]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" in expression`);
+    }
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseFactor();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // Exponentiation is right-associative and binds tighter than unary minus
+  const parseFactor = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseFactor();
+    }
+    if (peek() === '+') {
+      next();
+      return parseFactor();
+    }
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return base ** parseFactor();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^\d/.test(token)) {
+      return Number(token);
+    }
+
+    const name = token.toLowerCase();
+    if (name in FUNCTIONS) {
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return FUNCTIONS[name](argument);
+    }
+    if (name in CONSTANTS) {
+      return CONSTANTS[name];
+    }
+    throw new Error(`Unknown token "${token}" in expression`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${peek()}" in expression`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Expression does not evaluate to a finite number');
+  }
+  return result;
+}
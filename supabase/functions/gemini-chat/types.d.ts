@@ -33,3 +33,12 @@ declare const Deno: {
     get(key: string): string | undefined;
   };
 };
+
+declare module "https://esm.sh/@supabase/supabase-js@2.74.0" {
+  export * from "@supabase/supabase-js";
+}
+
+declare const EdgeRuntime: {
+  /** Keeps the worker alive until the promise settles, even after the response has ended */
+  waitUntil(promise: Promise<unknown>): void;
+};
@@ -0,0 +1,91 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { consumeRateLimit, recordTokenUsage } from "../_shared/rate-limit.ts";
+import { DEFAULT_MODEL_ID, getModelInfo } from "../_shared/models.ts";
+import { generateContent } from "../_shared/gemini-api.ts";
+
+// One-off generations for slash commands (summaries, translations, rewrites).
+// Nothing is saved here; the client decides where the text goes.
+
+interface GenerateTextPayload {
+  prompt?: string;
+  model?: string;
+  systemInstruction?: string;
+  temperature?: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to run commands');
+    }
+
+    const { prompt, model = DEFAULT_MODEL_ID, systemInstruction, temperature } = (await req.json()) as GenerateTextPayload;
+    if (!prompt?.trim()) {
+      return errorResponse(400, 'invalid_request', 'Nothing to generate from');
+    }
+    if (!getModelInfo(model)) {
+      return errorResponse(400, 'invalid_request', `Unknown model: ${model}`);
+    }
+    if (temperature !== undefined && !(Number.isFinite(temperature) && temperature >= 0 && temperature <= 2)) {
+      return errorResponse(400, 'invalid_request', 'Temperature must be between 0 and 2');
+    }
+
+    const rateLimit = await consumeRateLimit(auth.user.id, 'generate-text');
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        429,
+        'rate_limited',
+        `Rate limit reached. Try again in ${rateLimit.retryAfterSeconds}s.`,
+        { retryable: true, retryAfter: rateLimit.retryAfterSeconds }
+      );
+    }
+
+    const response = await generateContent(
+      model,
+      {
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }),
+        ...(temperature !== undefined && { generationConfig: { temperature } }),
+      },
+      `This is a mock result for: ${prompt.trim().split('\n')[0].slice(0, 80)}`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Gemini API error:', response.status, errorText);
+      return errorResponse(502, 'upstream_error', 'Failed to generate text', {
+        retryable: response.status === 429 || response.status >= 500,
+      });
+    }
+
+    const data = await response.json();
+    if (rateLimit.usageId) {
+      await recordTokenUsage(rateLimit.usageId, data.usageMetadata?.totalTokenCount ?? 0);
+    }
+
+    // Thought summaries are not part of the answer
+    const text = (data.candidates?.[0]?.content?.parts ?? [])
+      .filter((part: { thought?: boolean }) => !part.thought)
+      .map((part: { text?: string }) => part.text ?? '')
+      .join('')
+      .trim();
+    if (!text) {
+      return errorResponse(502, 'upstream_error', 'The model returned no text');
+    }
+
+    return new Response(
+      JSON.stringify({ text, model }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in generate-text function:', error);
+    return errorResponse(500, 'internal', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
@@ -1,9 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { consumeRateLimit, recordTokenUsage } from "../_shared/rate-limit.ts";
+import { generateContent } from "../_shared/gemini-api.ts";
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -11,6 +10,21 @@ serve(async (req) => {
   }
 
   try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to name chats');
+    }
+
+    const rateLimit = await consumeRateLimit(auth.user.id, 'name-chat');
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        429,
+        'rate_limited',
+        `Rate limit reached. Try again in ${rateLimit.retryAfterSeconds}s.`,
+        { retryable: true, retryAfter: rateLimit.retryAfterSeconds }
+      );
+    }
+
     const { userMessage, assistantResponse } = await req.json();
     
     if (!userMessage || !assistantResponse) {
@@ -20,15 +34,6 @@ serve(async (req) => {
       );
     }
 
-    const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
-    if (!GEMINI_API_KEY) {
-      console.error('GEMINI_API_KEY not configured');
-      return new Response(
-        JSON.stringify({ error: 'API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const prompt = `Chat Naming Instruction
 
 Task:
@@ -50,19 +55,16 @@ Instructions:
 Output format:
 Chat Name: <short descriptive title>`;
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-lite:generateContent?key=${GEMINI_API_KEY}`,
+    const response = await generateContent(
+      'gemini-2.5-flash-lite',
       {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts: [{ text: prompt }] }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 50,
-          },
-        }),
-      }
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: 50,
+        },
+      },
+      'Chat Name: Mock Chat'
     );
 
     if (!response.ok) {
@@ -75,6 +77,10 @@ Chat Name: <short descriptive title>`;
     }
 
     const data = await response.json();
+    if (rateLimit.usageId) {
+      await recordTokenUsage(rateLimit.usageId, data.usageMetadata?.totalTokenCount ?? 0);
+    }
+
     let chatName = data.candidates?.[0]?.content?.parts?.[0]?.text || 'New Chat';
     
     // Extract the name from "Chat Name: <title>" format
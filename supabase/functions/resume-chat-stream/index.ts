@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encodeStreamEvent, type StreamEvent } from "../_shared/events.ts";
+import { corsHeaders, errorResponse } from "../_shared/http.ts";
+import { authenticate } from "../_shared/auth.ts";
+
+// Continues a gemini-chat stream the client lost: replays the generation's buffered
+// events after the client's Last-Event-ID, then follows the buffer until it is done.
+
+const POLL_INTERVAL_MS = 500;
+const BATCH_SIZE = 200;
+// A generation that buffered nothing for this long lost its worker
+const STALE_MS = 90_000;
+
+interface ResumeStreamPayload {
+  requestId?: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (!auth) {
+      return errorResponse(401, 'unauthorized', 'Sign in to use Gemini');
+    }
+
+    const { requestId } = (await req.json()) as ResumeStreamPayload;
+    if (!requestId) {
+      return errorResponse(400, 'invalid_request', 'Missing requestId');
+    }
+    const lastEventId = Number(req.headers.get('Last-Event-ID') ?? -1);
+
+    // RLS hides other users' generations
+    const { data: generation } = await auth.supabase
+      .from('generations')
+      .select('created_at')
+      .eq('id', requestId)
+      .maybeSingle();
+    if (!generation) {
+      return errorResponse(404, 'invalid_request', 'This answer can no longer be resumed');
+    }
+
+    let clientGone = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const encoder = new TextEncoder();
+        const send = (event: StreamEvent, id?: number) => controller.enqueue(encoder.encode(encodeStreamEvent(event, id)));
+        let after = Number.isFinite(lastEventId) ? lastEventId : -1;
+        let lastActivity = new Date(generation.created_at).getTime();
+
+        try {
+          while (!clientGone) {
+            // Read the done flag first: events are all written before it is set, so none are missed
+            const { data: state, error: stateError } = await auth.supabase
+              .from('generations')
+              .select('done')
+              .eq('id', requestId)
+              .single();
+            if (stateError) throw stateError;
+
+            const { data: rows, error } = await auth.supabase
+              .from('generation_events')
+              .select('seq, event, created_at')
+              .eq('generation_id', requestId)
+              .gt('seq', after)
+              .order('seq', { ascending: true })
+              .limit(BATCH_SIZE);
+            if (error) throw error;
+
+            for (const row of rows ?? []) {
+              send(row.event as StreamEvent, row.seq);
+              after = row.seq;
+              lastActivity = new Date(row.created_at).getTime();
+            }
+
+            if (rows?.length === BATCH_SIZE) continue;
+            if (state.done) return;
+            if (Date.now() - lastActivity > STALE_MS) {
+              send({ type: 'error', code: 'internal', message: 'The generation was interrupted', retryable: false });
+              return;
+            }
+            await sleep(POLL_INTERVAL_MS);
+          }
+        } catch (error) {
+          console.error(`Failed to resume generation ${requestId}:`, error);
+          if (!clientGone) {
+            send({ type: 'error', code: 'internal', message: 'Failed to resume the answer', retryable: false });
+          }
+        } finally {
+          if (!clientGone) {
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        clientGone = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error in resume-chat-stream function:', error);
+    return errorResponse(500, 'internal', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
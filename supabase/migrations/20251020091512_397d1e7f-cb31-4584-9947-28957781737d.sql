@@ -0,0 +1,2 @@
+-- Store the model's thought summaries alongside assistant messages
+ALTER TABLE public.messages ADD COLUMN thoughts TEXT;
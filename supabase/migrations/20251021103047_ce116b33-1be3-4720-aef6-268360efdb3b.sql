@@ -0,0 +1,2 @@
+-- Record why the model stopped generating (MAX_TOKENS, SAFETY, ...)
+ALTER TABLE public.messages ADD COLUMN finish_reason TEXT;
@@ -0,0 +1,2 @@
+-- Keep Google Search grounding (queries, sources, supported spans) with assistant messages
+ALTER TABLE public.messages ADD COLUMN grounding JSONB;
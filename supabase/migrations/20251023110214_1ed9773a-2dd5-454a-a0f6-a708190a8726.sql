@@ -0,0 +1,2 @@
+-- Tool calls (name, arguments, result) made while generating an assistant message
+ALTER TABLE public.messages ADD COLUMN tool_calls JSONB;
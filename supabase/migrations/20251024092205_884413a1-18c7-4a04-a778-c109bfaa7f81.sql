@@ -0,0 +1,16 @@
+-- Allow every attachment type the composer can send to Gemini
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+  'text/csv'
+]
+WHERE id = 'chat-attachments';
@@ -0,0 +1,19 @@
+-- Remember Gemini Files API uploads so large attachments are sent once, not every turn
+ALTER TABLE public.message_attachments
+  ADD COLUMN gemini_file_uri TEXT,
+  ADD COLUMN gemini_file_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_message_attachments_file_path ON public.message_attachments(file_path);
+
+-- gemini-chat updates the cached file URI as the calling user
+CREATE POLICY "Users can update attachments in their sessions"
+ON public.message_attachments
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.messages
+    JOIN public.sessions ON messages.session_id = sessions.id
+    WHERE messages.id = message_attachments.message_id
+    AND sessions.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,94 @@
+-- Per-user request and token accounting for the edge functions
+CREATE TABLE public.api_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  function_name TEXT NOT NULL,
+  tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.api_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own usage"
+  ON public.api_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_api_usage_user_created_at ON public.api_usage(user_id, created_at DESC);
+
+-- Checks both limits and records the request in one transaction.
+-- Returns how many seconds to wait when a limit has been reached.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_user_id UUID,
+  p_function_name TEXT,
+  p_max_requests INTEGER,
+  p_request_window_seconds INTEGER,
+  p_max_tokens INTEGER,
+  p_token_window_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, retry_after_seconds INTEGER, usage_id UUID, limit_type TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_count INTEGER;
+  v_oldest_request TIMESTAMP WITH TIME ZONE;
+  v_token_total BIGINT;
+  v_oldest_token TIMESTAMP WITH TIME ZONE;
+  v_usage_id UUID;
+BEGIN
+  -- Serialize concurrent requests from the same user
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text));
+
+  SELECT count(*), min(created_at)
+    INTO v_request_count, v_oldest_request
+    FROM api_usage
+   WHERE user_id = p_user_id
+     AND created_at > now() - make_interval(secs => p_request_window_seconds);
+
+  IF v_request_count >= p_max_requests THEN
+    RETURN QUERY SELECT
+      false,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM v_oldest_request + make_interval(secs => p_request_window_seconds) - now())))::INTEGER,
+      NULL::UUID,
+      'requests'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(sum(tokens), 0), min(created_at)
+    INTO v_token_total, v_oldest_token
+    FROM api_usage
+   WHERE user_id = p_user_id
+     AND created_at > now() - make_interval(secs => p_token_window_seconds);
+
+  IF v_token_total >= p_max_tokens THEN
+    RETURN QUERY SELECT
+      false,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM v_oldest_token + make_interval(secs => p_token_window_seconds) - now())))::INTEGER,
+      NULL::UUID,
+      'tokens'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO api_usage (user_id, function_name)
+  VALUES (p_user_id, p_function_name)
+  RETURNING id INTO v_usage_id;
+
+  RETURN QUERY SELECT true, 0, v_usage_id, NULL::TEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_token_usage(p_usage_id UUID, p_tokens INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE api_usage SET tokens = p_tokens WHERE id = p_usage_id;
+$$;
+
+-- Only the edge functions (service role) may consume quota or record usage
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_token_usage(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(UUID, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_token_usage(UUID, INTEGER) TO service_role;
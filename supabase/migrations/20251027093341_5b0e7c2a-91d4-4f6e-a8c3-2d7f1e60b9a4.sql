@@ -0,0 +1,2 @@
+-- Model that actually produced an assistant message (may be a fallback of the session model)
+ALTER TABLE public.messages ADD COLUMN model TEXT;
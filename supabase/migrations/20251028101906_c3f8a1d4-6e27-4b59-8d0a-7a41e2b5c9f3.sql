@@ -0,0 +1,5 @@
+-- JSON Schema used for structured output in a session
+ALTER TABLE public.sessions ADD COLUMN response_schema JSONB;
+
+-- Result of validating an assistant message against that schema ({ valid, issues })
+ALTER TABLE public.messages ADD COLUMN schema_validation JSONB;
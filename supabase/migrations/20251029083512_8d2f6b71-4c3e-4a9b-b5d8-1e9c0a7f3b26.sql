@@ -0,0 +1,2 @@
+-- Sampling parameters (topP, topK, maxOutputTokens, stopSequences, penalties, seed) of the session's latest run
+ALTER TABLE public.sessions ADD COLUMN generation_params JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,14 @@
+-- Alternative responses sampled for one prompt; content/thoughts/grounding mirror the selected one
+ALTER TABLE public.messages ADD COLUMN candidates JSONB;
+ALTER TABLE public.messages ADD COLUMN selected_candidate INTEGER;
+
+-- Picking a different candidate rewrites the assistant message in place
+CREATE POLICY "Users can update messages in their sessions"
+  ON public.messages FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sessions
+      WHERE sessions.id = messages.session_id
+      AND sessions.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,2 @@
+-- Token usage reported for an assistant message ({ promptTokens, completionTokens, totalTokens })
+ALTER TABLE public.messages ADD COLUMN usage JSONB;
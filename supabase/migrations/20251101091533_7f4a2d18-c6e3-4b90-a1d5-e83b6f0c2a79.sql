@@ -0,0 +1,40 @@
+-- How much history each session sends: everything, the last N turns, or a rolling summary plus the last N turns
+ALTER TABLE public.sessions
+  ADD COLUMN context_strategy TEXT NOT NULL DEFAULT 'all'
+    CHECK (context_strategy IN ('all', 'last_n', 'summarize')),
+  ADD COLUMN context_turns INTEGER NOT NULL DEFAULT 10 CHECK (context_turns > 0);
+
+-- Rolling summaries of compacted history; each one folds in the previous summary
+CREATE TABLE public.context_summaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.sessions(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  -- Newest message covered by the summary; the transcript shows the marker after it
+  last_message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.context_summaries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view summaries in their sessions"
+  ON public.context_summaries FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sessions
+      WHERE sessions.id = context_summaries.session_id
+      AND sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create summaries in their sessions"
+  ON public.context_summaries FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.sessions
+      WHERE sessions.id = context_summaries.session_id
+      AND sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_context_summaries_session_id ON public.context_summaries(session_id, created_at);
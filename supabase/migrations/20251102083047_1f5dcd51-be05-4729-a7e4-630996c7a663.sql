@@ -0,0 +1,2 @@
+-- Code run by the code execution tool ([{ language, code, offset, outcome, output }])
+ALTER TABLE public.messages ADD COLUMN code_executions JSONB;
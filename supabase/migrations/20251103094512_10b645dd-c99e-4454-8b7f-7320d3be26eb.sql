@@ -0,0 +1,17 @@
+-- URLs whose content was attached to a user turn when it was sent
+ALTER TABLE public.messages ADD COLUMN urls TEXT[];
+
+-- Extracted page content shared between users; keyed by URL and ETag ('' when the server sent none)
+CREATE TABLE public.url_cache (
+  url TEXT NOT NULL,
+  etag TEXT NOT NULL DEFAULT '',
+  title TEXT NOT NULL DEFAULT '',
+  content TEXT NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (url, etag)
+);
+
+-- No policies: only edge functions, using the service role, read or write the cache
+ALTER TABLE public.url_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_url_cache_url_fetched_at ON public.url_cache(url, fetched_at DESC);
@@ -0,0 +1,23 @@
+-- gemini-chat saves replies as they stream; status records how far a reply's generation got
+ALTER TABLE public.messages
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'complete'
+    CHECK (status IN ('streaming', 'complete', 'interrupted', 'failed')),
+  ADD COLUMN error TEXT,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Lets clients tell a reply that is still being written from one whose function died
+CREATE TRIGGER update_messages_updated_at
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Replies that failed before producing any output are removed again
+CREATE POLICY "Users can delete messages in their sessions"
+  ON public.messages FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.sessions
+      WHERE sessions.id = messages.session_id
+      AND sessions.user_id = auth.uid()
+    )
+  );
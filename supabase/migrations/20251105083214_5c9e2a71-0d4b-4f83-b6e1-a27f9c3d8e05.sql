@@ -0,0 +1,39 @@
+-- One row per gemini-chat request; its events are buffered so a client that lost the
+-- connection can resume the same answer instead of resending
+CREATE TABLE public.generations (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  -- Assistant message the generation writes into, when the request named a session
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  done BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.generation_events (
+  generation_id UUID NOT NULL REFERENCES public.generations(id) ON DELETE CASCADE,
+  -- Matches the SSE event id the client reports back as Last-Event-ID
+  seq INTEGER NOT NULL,
+  event JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (generation_id, seq)
+);
+
+-- Users read their own buffers; only edge functions, using the service role, write them
+ALTER TABLE public.generations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generations"
+  ON public.generations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view events of their own generations"
+  ON public.generation_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.generations
+      WHERE generations.id = generation_events.generation_id
+      AND generations.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_generations_user_created_at ON public.generations(user_id, created_at DESC);
@@ -0,0 +1,17 @@
+-- Replies the user stopped keep their partial text and can be continued later
+ALTER TABLE public.messages DROP CONSTRAINT messages_status_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_status_check
+  CHECK (status IN ('streaming', 'complete', 'stopped', 'interrupted', 'failed'));
+
+-- Set by the client before it hangs up on purpose, so gemini-chat cancels the
+-- generation instead of finishing it for a client that merely lost its connection
+ALTER TABLE public.generations ADD COLUMN stop_requested BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Users can update their own generations"
+  ON public.generations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- The rest of the row is written by gemini-chat with the service role; clients may only ask for a stop
+REVOKE UPDATE ON public.generations FROM anon, authenticated;
+GRANT UPDATE (stop_requested) ON public.generations TO authenticated;
@@ -0,0 +1,37 @@
+-- Reusable prompt scaffolds, exposed in the composer as /name slash commands
+CREATE TABLE public.prompt_macros (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (name ~ '^[a-z][a-z0-9_-]{0,31}$'),
+  description TEXT,
+  -- Prompt text with {{variable}} placeholders
+  template TEXT NOT NULL,
+  -- Optional per-turn settings: model, temperature, systemInstruction
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.prompt_macros ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own macros"
+  ON public.prompt_macros FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own macros"
+  ON public.prompt_macros FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own macros"
+  ON public.prompt_macros FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own macros"
+  ON public.prompt_macros FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prompt_macros_updated_at
+  BEFORE UPDATE ON public.prompt_macros
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
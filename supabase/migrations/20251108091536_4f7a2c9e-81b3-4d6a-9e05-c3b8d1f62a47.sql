@@ -0,0 +1,19 @@
+-- Messages form a tree per session: editing an earlier prompt starts a sibling branch under the same parent
+ALTER TABLE public.messages
+  ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_parent_id ON public.messages(parent_id);
+
+-- Existing conversations become a single branch, each message answering the one before it
+UPDATE public.messages
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY session_id ORDER BY created_at, id) AS previous_id
+  FROM public.messages
+) AS ordered
+WHERE messages.id = ordered.id
+  AND ordered.previous_id IS NOT NULL;
+
+-- The branch the user last looked at; clients show the path from the root down to this message
+ALTER TABLE public.sessions
+  ADD COLUMN active_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
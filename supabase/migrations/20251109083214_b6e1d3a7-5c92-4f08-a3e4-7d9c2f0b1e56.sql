@@ -0,0 +1,4 @@
+-- Function-calling tools and fallback models are per-session settings like the sampling ones
+ALTER TABLE public.sessions
+  ADD COLUMN enabled_tools TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN fallback_models TEXT[] NOT NULL DEFAULT '{}';